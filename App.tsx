@@ -4,8 +4,9 @@
 */
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { generateEditedImage, generateFilteredImage, generateAdjustedImage } from './services/geminiService';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateSubjectMask, isApiKeyMissing, applyApiSettings, testApiSettings } from './services/geminiService';
+import type { ApiSettings } from './services/apiSettings';
 import Header from './components/Header';
 import Spinner from './components/Spinner';
 import FilterPanel from './components/FilterPanel';
@@ -13,54 +14,218 @@ import AdjustmentPanel from './components/AdjustmentPanel';
 import AssetOverlay from './components/AssetOverlay';
 import { UndoIcon, RedoIcon, EyeIcon } from './components/icons';
 import StartScreen from './components/StartScreen';
+import { dataURLtoFile, downloadBlob } from './services/fileUtils';
+import { serializeProject, parseProject, PROJECT_FILE_EXTENSION } from './services/projectService';
+import type { ProjectPrompts } from './services/projectService';
+import {
+  createHistory,
+  pushCommand,
+  undo,
+  redo,
+  jumpTo,
+  lastAppliedCommand,
+  canUndo as historyCanUndo,
+  canRedo as historyCanRedo,
+  createOverlayUpdate,
+  createOverlaysUpdate,
+  createOverlayRemoval,
+  EditorCommand,
+  EditorHistory,
+  OverlayUpdate,
+} from './services/editorHistory';
+import { createSessionId, saveSession, loadSession, listSessions, deleteSession, SessionSummary } from './services/sessionStore';
+import SessionPicker from './components/SessionPicker';
+import ExportDialog from './components/ExportDialog';
+import { exportComposition, ExportFormat, ExportOptions, FORMAT_EXTENSIONS } from './services/exportService';
+import CompositionCanvas from './components/CompositionCanvas';
+import LayersPanel from './components/LayersPanel';
+import AssetBrowser from './components/AssetBrowser';
+import AssetUploadDialog from './components/AssetUploadDialog';
+import CutoutEditor from './components/CutoutEditor';
+import VariantPicker from './components/VariantPicker';
+import VariantTray from './components/VariantTray';
+import { generateVariants, addToTray, MAX_VARIANTS, TrayVariant } from './services/variants';
+import JobsDrawer from './components/JobsDrawer';
+import ErrorNotice, { EditorNotice } from './components/ErrorNotice';
+import SettingsDialog from './components/SettingsDialog';
+import CropPanel from './components/CropPanel';
+import TextPanel from './components/TextPanel';
+import DrawingPanel from './components/DrawingPanel';
+import DrawingPainter from './components/DrawingPainter';
+import type { LocalAdjustment } from './components/AdjustmentPanel';
+import { AdjustmentSettings, describeAdjustments, isIdentityAdjustment } from './services/adjustments';
+import { cropImage, remapOverlaysForCrop } from './services/crop';
+import { ImageEditError } from './services/imageEditErrors';
+import { createJobQueue, isAbortError, Job } from './services/jobQueue';
+import MaskPainter from './components/MaskPainter';
+import ToolOptions from './components/ToolOptions';
+import { canvasToFile } from './services/mask';
+import type { MaskBrushMode, MaskTool } from './services/mask';
+import {
+  listCustomAssets,
+  saveCustomAsset,
+  deleteCustomAsset,
+  createCustomAsset,
+  registerCustomAssets,
+  resolveAssetUrl,
+  customAssetSrc,
+  toAssetEntry,
+  CustomAsset,
+  CustomAssetDetails,
+} from './services/customAssets';
+import {
+  reorderLayers,
+  moveLayers,
+  nextZIndex,
+  duplicateOverlay,
+  createTextOverlay,
+  restyleTextOverlay,
+  createDrawingOverlay,
+  addStrokeToDrawing,
+} from './services/layers';
+import { CaptionPosition, isTextOverlay, loadTextLayerFonts } from './services/textLayers';
+import { isDrawingOverlay } from './services/drawingLayers';
+import {
+  buildCompositionLayers,
+  computeFitRect,
+  loadImage,
+  BASE_IMAGE_BOX,
+  FailedAsset,
+  Rect,
+  STAGE_SIZE,
+} from './services/compositionRenderer';
+import { findCharacterAnchors, detectCharacterAnchors, placeAsset } from './services/placement';
+import type { AssetEntry, CharacterAnchors, DrawingStroke, DrawingTool, Overlay, TextLayer } from './types';
 
-// Helper to convert a data URL string to a File object
-const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mime = arr[0].match(/:(.*?);/)?.[1] || 'image/png';
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while (n--) {
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new File([u8arr], filename, {type:mime});
+
+const AUTOSAVE_DELAY_MS = 300;
+
+interface SessionInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+const createSessionInfo = (): SessionInfo => ({
+  id: createSessionId(),
+  name: `Zazu piece — ${new Date().toLocaleString()}`,
+  createdAt: Date.now(),
+});
+
+  type Tab = 'retouch' | 'crop' | 'adjust' | 'filters' | 'assets' | 'text' | 'draw' | 'layers';
+
+// Builds the inline notice for a failure; typed AI errors get recovery actions matching their reason
+const createNotice = (
+  message: string,
+  err: unknown,
+  recovery: Pick<EditorNotice, 'onRetry' | 'onRephrase'> = {}
+): EditorNotice => ({
+  message,
+  reason: err instanceof ImageEditError ? err.reason : undefined,
+  ...recovery,
+});
+
+// Shown instead of sending a request that can only fail
+const MISSING_KEY_NOTICE: EditorNotice = {
+  message: 'No Gemini API key is configured. Add your key in Settings to use AI edits.',
+  reason: 'invalid-key',
+};
+
+// Tabs whose AI operations can produce several variants to choose from
+const VARIANT_TABS: Tab[] = ['retouch', 'adjust', 'filters'];
+
+// The variants of one AI operation waiting for the user to pick one
+interface VariantChoice {
+  label: string;
+  fileNamePrefix: string;
+  imageUrls: string[];
+  regenerate: () => void;
 }
 
-  type Tab = 'retouch' | 'adjust' | 'filters' | 'backgrounds' | 'eyes' | 'hats' | 'accessories';
+const EMPTY_PROMPTS: ProjectPrompts = { retouch: '', filter: '', adjustment: '' };
+
+// Tabs where assets can be selected and transformed on the stage
+const ASSET_EDITING_TABS: Tab[] = ['assets', 'text', 'layers'];
 
 const App: React.FC = () => {
-  const [history, setHistory] = useState<File[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  const [history, setHistory] = useState<EditorHistory | null>(null);
   const [prompt, setPrompt] = useState<string>('');
+  const [filterPrompt, setFilterPrompt] = useState<string>('');
+  const [adjustmentPrompt, setAdjustmentPrompt] = useState<string>('');
+  const prompts = useMemo<ProjectPrompts>(
+    () => ({ retouch: prompt, filter: filterPrompt, adjustment: adjustmentPrompt }),
+    [prompt, filterPrompt, adjustmentPrompt],
+  );
+  // Sessions saved before the filter and adjustment prompts were kept don't have them
+  const setPrompts = useCallback((saved: Partial<ProjectPrompts>) => {
+    setPrompt(saved.retouch ?? '');
+    setFilterPrompt(saved.filter ?? '');
+    setAdjustmentPrompt(saved.adjustment ?? '');
+  }, []);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [editHotspot, setEditHotspot] = useState<{ x: number, y: number } | null>(null);
-  const [displayHotspot, setDisplayHotspot] = useState<{ x: number, y: number } | null>(null);
+  const [error, setError] = useState<EditorNotice | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [apiKeyMissing, setApiKeyMissing] = useState<boolean>(isApiKeyMissing);
+  // The region the next retouch is limited to, at the current image's natural size
+  const [editMask, setEditMask] = useState<HTMLCanvasElement | null>(null);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [maskMode, setMaskMode] = useState<MaskBrushMode>('add');
+  const [maskBrushSize, setMaskBrushSize] = useState<number>(24);
+  const [drawingTool, setDrawingTool] = useState<DrawingTool>('pen');
+  const [drawingColor, setDrawingColor] = useState<string>('#ef4444');
+  const [drawingWidth, setDrawingWidth] = useState<number>(6);
+  const [drawingTargetId, setDrawingTargetId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('retouch');
   const [hasStarted, setHasStarted] = useState<boolean>(false);
-  const [assetOverlays, setAssetOverlays] = useState<Array<{
-    id: string;
-    src: string;
-    name: string;
-    category: string;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    rotation: number;
-    opacity: number;
-    zIndex: number;
-  }>>([]);
   const [isEditingAssets, setIsEditingAssets] = useState<boolean>(false);
+  const [selectedOverlayIds, setSelectedOverlayIds] = useState<string[]>([]);
+  // Overlays copied with Ctrl+C; replaced by each paste so repeated pastes cascade
+  const overlayClipboardRef = useRef<Overlay[]>([]);
+  // Shared by the repeats of a held arrow key so the nudge is a single undo entry
+  const nudgeKeyRef = useRef<string | undefined>(undefined);
   const imageDisplayRef = useRef<HTMLDivElement>(null);
+  const promptInputRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [session, setSession] = useState<SessionInfo | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [sessionPickerMode, setSessionPickerMode] = useState<'restore' | 'manage' | null>(null);
+  const hasCheckedSessionsRef = useRef<boolean>(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState<boolean>(false);
+  const [customAssets, setCustomAssets] = useState<CustomAsset[]>([]);
+  const [isUploadDialogOpen, setIsUploadDialogOpen] = useState<boolean>(false);
+  const [isCutoutEditorOpen, setIsCutoutEditorOpen] = useState<boolean>(false);
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [variantChoice, setVariantChoice] = useState<VariantChoice | null>(null);
+  // Read by queued jobs that finish while the picker is open
+  const variantChoiceRef = useRef<VariantChoice | null>(variantChoice);
+  variantChoiceRef.current = variantChoice;
+  const [variantTray, setVariantTray] = useState<TrayVariant[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  // Runs one AI job at a time, so a queued job works on the result of the one before it
+  const [jobQueue] = useState(() => createJobQueue({ onChange: setJobs }));
   
   const [isComparing, setIsComparing] = useState<boolean>(false);
-  const imgRef = useRef<HTMLImageElement>(null);
+  const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
+  const [baseImageSize, setBaseImageSize] = useState<{ width: number, height: number } | null>(null);
+  const [failedAssets, setFailedAssets] = useState<FailedAsset[]>([]);
+  const [characterAnchors, setCharacterAnchors] = useState<CharacterAnchors | null>(null);
 
-  const currentImage = history[historyIndex] ?? null;
-  const originalImage = history[0] ?? null;
+  const currentImage = history?.present.image ?? null;
+  // Queued jobs read the image when they start rather than when they were queued
+  const currentImageRef = useRef<File | null>(currentImage);
+  currentImageRef.current = currentImage;
+  const latestImage = useCallback(() => {
+    if (!currentImageRef.current) throw new Error('No image loaded.');
+    return currentImageRef.current;
+  }, []);
+  const runningJob = jobs.find(job => job.status === 'running' || job.status === 'retrying');
+  const originalImage = history?.base.image ?? null;
+  const assetOverlays = history?.present.overlays ?? [];
+  // Ignore ids of overlays that have since been removed (e.g. by undo)
+  const selectedIds = useMemo(
+    () => selectedOverlayIds.filter(id => assetOverlays.some(overlay => overlay.id === id)),
+    [selectedOverlayIds, assetOverlays]
+  );
 
   const [currentImageUrl, setCurrentImageUrl] = useState<string | null>(null);
   const [originalImageUrl, setOriginalImageUrl] = useState<string | null>(null);
@@ -87,6 +252,66 @@ const App: React.FC = () => {
     }
   }, [originalImage]);
 
+  // Effect to read the natural size of the current image, used to map stage clicks to image pixels
+  useEffect(() => {
+    if (!currentImageUrl) {
+      setBaseImageSize(null);
+      return;
+    }
+    let cancelled = false;
+    loadImage(currentImageUrl)
+      .then(img => { if (!cancelled) setBaseImageSize({ width: img.naturalWidth, height: img.naturalHeight }); })
+      .catch(() => { if (!cancelled) setBaseImageSize(null); });
+    return () => { cancelled = true; };
+  }, [currentImageUrl]);
+
+  // Effect to find where assets snap onto the character: from the catalog for built-in
+  // characters, otherwise detected from the current image. Catalog anchors only fit the
+  // unmodified original; once it has been cropped or edited they are detected instead
+  useEffect(() => {
+    const isOriginal = !!originalImage && currentImage === originalImage;
+    const catalogAnchors = isOriginal ? findCharacterAnchors(originalImage.name) : null;
+    if (catalogAnchors || !currentImageUrl) {
+      setCharacterAnchors(catalogAnchors);
+      return;
+    }
+    let cancelled = false;
+    loadImage(currentImageUrl)
+      .then(img => {
+        if (cancelled) return;
+        setCharacterAnchors(detectCharacterAnchors(img));
+      })
+      .catch(() => { if (!cancelled) setCharacterAnchors(null); });
+    return () => { cancelled = true; };
+  }, [originalImage, currentImage, currentImageUrl]);
+
+  // `customAssets` is a dependency because uploaded assets only resolve once the library has loaded
+  const compositionLayers = useMemo(
+    () => buildCompositionLayers(isComparing ? originalImageUrl : imagePreviewUrl ?? currentImageUrl, assetOverlays),
+    [isComparing, originalImageUrl, imagePreviewUrl, currentImageUrl, assetOverlays, customAssets]
+  );
+
+  // The local adjustment that produced the present image, which the Adjust tab's sliders can still edit
+  const lastCommand = history ? lastAppliedCommand(history) : undefined;
+  const lastAdjustment = useMemo<LocalAdjustment | null>(
+    () => lastCommand?.type === 'setImage' && lastCommand.adjustments
+      ? { source: lastCommand.before, settings: lastCommand.adjustments }
+      : null,
+    [lastCommand]
+  );
+
+  const customAssetEntries = useMemo(() => customAssets.map(toAssetEntry), [customAssets]);
+
+  // Effect to load the user's uploaded assets once at startup
+  useEffect(() => {
+    listCustomAssets()
+      .then(assets => {
+        registerCustomAssets(assets);
+        setCustomAssets(assets);
+      })
+      .catch(err => console.error('Could not load uploaded assets:', err));
+  }, []);
+
   const loadZazuImage = useCallback(async () => {
     console.log('loadZazuImage called');
     try {
@@ -107,368 +332,781 @@ const App: React.FC = () => {
       const zazuFile = new File([blob], 'zazu.png', { type: 'image/png' });
       console.log('File created:', zazuFile.name, zazuFile.size, 'bytes');
       
-      setHistory([zazuFile]);
-      setHistoryIndex(0);
-      setEditHotspot(null);
-      setDisplayHotspot(null);
+      setHistory(createHistory(zazuFile));
+      setPrompts(EMPTY_PROMPTS);
+      setSession(createSessionInfo());
+      setEditMask(null);
       setActiveTab('retouch');
       setHasStarted(true);
       console.log('Zazu image loaded successfully');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load Zazu image';
-      setError(errorMessage);
+      setError({ message: errorMessage });
       console.error('Error loading Zazu image:', err);
     } finally {
       setIsLoading(false);
     }
   }, []);
 
-  // Effect to automatically load Zazu when the app starts
+  // Effect to offer restoring a previous session when the app starts, or load Zazu if there is none
   useEffect(() => {
-    console.log('useEffect triggered - hasStarted:', hasStarted, 'history.length:', history.length);
-    if (!hasStarted && history.length === 0) {
-      console.log('Starting to load Zazu...');
-      loadZazuImage();
+    if (hasStarted || history || hasCheckedSessionsRef.current) return;
+    hasCheckedSessionsRef.current = true;
+
+    listSessions()
+      .then(found => {
+        if (found.length > 0) {
+          console.log(`Found ${found.length} saved session(s)`);
+          setSessions(found);
+          setSessionPickerMode('restore');
+        } else {
+          console.log('Starting to load Zazu...');
+          loadZazuImage();
+        }
+      })
+      .catch(err => {
+        console.error('Could not read saved sessions:', err);
+        loadZazuImage();
+      });
+  }, [hasStarted, history, loadZazuImage]);
+
+  // Effect to autosave the session whenever the history or overlays change
+  useEffect(() => {
+    if (!session || !history) return;
+    const timeout = setTimeout(() => {
+      saveSession({
+        ...session,
+        updatedAt: Date.now(),
+        thumbnail: history.present.image,
+        snapshot: { history, prompts },
+      }).catch(err => console.error('Autosave failed:', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [session, history, prompts]);
+
+  const refreshSessions = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (err) {
+      console.error('Could not read saved sessions:', err);
+    }
+  }, []);
+
+  const handleRestoreSession = useCallback(async (id: string) => {
+    try {
+      const record = await loadSession(id);
+      if (!record) {
+        throw new Error('The session no longer exists.');
+      }
+      setHistory(record.snapshot.history);
+      setPrompts(record.snapshot.prompts);
+      setSession({ id: record.id, name: record.name, createdAt: record.createdAt });
+      setEditMask(null);
+      setActiveTab('retouch');
+      setHasStarted(true);
+      setSessionPickerMode(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError({ message: `Failed to restore the session. ${errorMessage}` });
+      console.error(err);
     }
-  }, [hasStarted, history.length, loadZazuImage]);
+  }, []);
+
+  const handleDeleteSession = useCallback(async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.error('Could not delete session:', err);
+    }
+    refreshSessions();
+  }, [refreshSessions]);
+
+  const handleStartNewSession = useCallback(() => {
+    setSessionPickerMode(null);
+    loadZazuImage();
+  }, [loadZazuImage]);
+
+  const handleOpenSessions = useCallback(() => {
+    refreshSessions();
+    setSessionPickerMode('manage');
+  }, [refreshSessions]);
+
+  const canUndo = historyCanUndo(history);
+  const canRedo = historyCanRedo(history);
 
-  const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  // Records an undoable command; every change to the image or overlays goes through here
+  const executeCommand = useCallback((command: EditorCommand | null) => {
+    if (!command) return;
+    setHistory(prev => prev ? pushCommand(prev, command) : prev);
+  }, []);
 
-  const addImageToHistory = useCallback((newImageFile: File) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newImageFile);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
-    // Reset transient states after an action
-  }, [history, historyIndex]);
+  const addImageToHistory = useCallback((newImageFile: File, label: string = 'Edit image') => {
+    // The next queued job may start before React renders the new history
+    currentImageRef.current = newImageFile;
+    setHistory(prev => prev
+      ? pushCommand(prev, { type: 'setImage', label, before: prev.present.image, after: newImageFile })
+      : createHistory(newImageFile));
+  }, []);
 
   const handleImageUpload = useCallback((file: File) => {
     setError(null);
-    setHistory([file]);
-    setHistoryIndex(0);
-    setEditHotspot(null);
-    setDisplayHotspot(null);
+    setHistory(prev => createHistory(file, prev?.present.overlays));
+    setSession(createSessionInfo());
+    setEditMask(null);
     setActiveTab('retouch');
   }, []);
 
+  const commitGeneratedImage = useCallback((imageUrl: string, label: string, fileNamePrefix: string) => {
+    addImageToHistory(dataURLtoFile(imageUrl, `${fileNamePrefix}-${Date.now()}.png`), label);
+    setEditMask(null);
+  }, [addImageToHistory]);
+
+  // A single variant goes straight into history; several are shown in the picker
+  const presentVariants = useCallback((choice: VariantChoice) => {
+    if (variantCount === 1 && choice.imageUrls.length === 1) {
+      commitGeneratedImage(choice.imageUrls[0], choice.label, choice.fileNamePrefix);
+      return;
+    }
+    // A job can finish while the picker still shows an earlier one; its variants weren't picked, so they go to the tray
+    const open = variantChoiceRef.current;
+    if (open && open.imageUrls.length > 0) {
+      setVariantTray(prev => addToTray(prev, open.imageUrls, open.label));
+    }
+    variantChoiceRef.current = choice;
+    setVariantChoice(choice);
+  }, [variantCount, commitGeneratedImage]);
+
+  const handlePickVariant = useCallback((index: number) => {
+    if (!variantChoice) return;
+    commitGeneratedImage(variantChoice.imageUrls[index], variantChoice.label, variantChoice.fileNamePrefix);
+    setVariantTray(prev => addToTray(prev, variantChoice.imageUrls.filter((_, i) => i !== index), variantChoice.label));
+    setVariantChoice(null);
+  }, [variantChoice, commitGeneratedImage]);
+
+  const handleRegenerateVariants = useCallback(() => {
+    if (!variantChoice) return;
+    // The current variants were not picked, so they move to the tray while new ones generate
+    setVariantTray(prev => addToTray(prev, variantChoice.imageUrls, variantChoice.label));
+    setVariantChoice({ ...variantChoice, imageUrls: [] });
+    variantChoice.regenerate();
+  }, [variantChoice]);
+
+  const handleCloseVariantPicker = useCallback(() => {
+    if (!variantChoice) return;
+    setVariantTray(prev => addToTray(prev, variantChoice.imageUrls, variantChoice.label));
+    setVariantChoice(null);
+  }, [variantChoice]);
+
+  const handleUseTrayVariant = useCallback((variant: TrayVariant) => {
+    commitGeneratedImage(variant.imageUrl, variant.label, 'variant');
+    setVariantTray(prev => prev.filter(entry => entry.id !== variant.id));
+  }, [commitGeneratedImage]);
+
+  const handleSaveSettings = useCallback((settings: ApiSettings) => {
+    applyApiSettings(settings);
+    setApiKeyMissing(isApiKeyMissing());
+    // A key problem reported earlier may be fixed now
+    setError(prev => prev?.reason === 'invalid-key' ? null : prev);
+  }, []);
+
+  // Brings back the prompt a failed request came from so it can be reworded
+  const rephrase = (tab: Tab) => {
+    handleTabChange(tab);
+    if (tab === 'retouch') requestAnimationFrame(() => promptInputRef.current?.focus());
+  };
+
   const handleGenerate = useCallback(async () => {
     if (!currentImage) {
-      setError('No image loaded to edit.');
+      setError({ message: 'No image loaded to edit.' });
+      return;
+    }
+
+    if (isApiKeyMissing()) {
+      setError(MISSING_KEY_NOTICE);
       return;
     }
     
     if (!prompt.trim()) {
-        setError('Please enter a description for your edit.');
+        setError({ message: 'Please enter a description for your edit.' });
         return;
     }
 
-    if (!editHotspot) {
-        setError('Please click on the image to select an area to edit.');
+    if (!editMask) {
+        setError({ message: 'Please paint over the area of the image you want to edit.' });
         return;
     }
 
-    setIsLoading(true);
     setError(null);
     
     try {
-        const editedImageUrl = await generateEditedImage(currentImage, prompt, editHotspot);
-        const newImageFile = dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
-        setEditHotspot(null);
-        setDisplayHotspot(null);
+        const mask = editMask;
+        const editedImageUrls = await jobQueue.enqueue(`Retouch: ${prompt}`, signal =>
+          generateVariants(variantCount, () => generateEditedImage(latestImage(), prompt, mask, signal)));
+        presentVariants({
+          label: `Retouch: ${prompt}`,
+          fileNamePrefix: 'edited',
+          imageUrls: editedImageUrls,
+          regenerate: () => handleGenerate(),
+        });
     } catch (err) {
+        if (isAbortError(err)) return;
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to generate the image. ${errorMessage}`);
+        setError(createNotice(`Failed to generate the image. ${errorMessage}`, err, {
+          onRetry: () => handleGenerate(),
+          onRephrase: () => rephrase('retouch'),
+        }));
         console.error(err);
-    } finally {
-        setIsLoading(false);
     }
-  }, [currentImage, prompt, editHotspot, addImageToHistory]);
+  }, [currentImage, prompt, editMask, variantCount, presentVariants, jobQueue, latestImage]);
   
   const handleApplyFilter = useCallback(async (filterPrompt: string) => {
     if (!currentImage) {
-      setError('No image loaded to apply a filter to.');
+      setError({ message: 'No image loaded to apply a filter to.' });
+      return;
+    }
+
+    if (isApiKeyMissing()) {
+      setError(MISSING_KEY_NOTICE);
       return;
     }
     
-    setIsLoading(true);
     setError(null);
     
     try {
-        const filteredImageUrl = await generateFilteredImage(currentImage, filterPrompt);
-        const newImageFile = dataURLtoFile(filteredImageUrl, `filtered-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const filteredImageUrls = await jobQueue.enqueue(`Filter: ${filterPrompt}`, signal =>
+          generateVariants(variantCount, () => generateFilteredImage(latestImage(), filterPrompt, signal)));
+        presentVariants({
+          label: 'Apply filter',
+          fileNamePrefix: 'filtered',
+          imageUrls: filteredImageUrls,
+          regenerate: () => handleApplyFilter(filterPrompt),
+        });
     } catch (err) {
+        if (isAbortError(err)) return;
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the filter. ${errorMessage}`);
+        setError(createNotice(`Failed to apply the filter. ${errorMessage}`, err, {
+          onRetry: () => handleApplyFilter(filterPrompt),
+          onRephrase: () => rephrase('filters'),
+        }));
         console.error(err);
-    } finally {
-        setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, variantCount, presentVariants, jobQueue, latestImage]);
   
+  const handleCommitLocalFilter = useCallback((filtered: File, label: string) => {
+    addImageToHistory(filtered, label);
+    setEditMask(null);
+  }, [addImageToHistory]);
+
+  const handleApplyCutout = useCallback((cutout: File) => {
+    addImageToHistory(cutout, 'Cut out subject');
+    setEditMask(null);
+  }, [addImageToHistory]);
+  
+  const handleApplyCrop = useCallback(async (crop: Rect, outputSize?: { width: number; height: number }) => {
+    if (!currentImage || !currentImageUrl) {
+      setError({ message: 'No image loaded to crop.' });
+      return;
+    }
+
+    setError(null);
+
+    try {
+        const image = await loadImage(currentImageUrl);
+        const croppedFile = await canvasToFile(cropImage(image, crop, outputSize), `cropped-${Date.now()}.png`);
+        const imageSize = { width: image.naturalWidth, height: image.naturalHeight };
+        setHistory(prev => prev && pushCommand(prev, {
+          type: 'setImage',
+          label: 'Crop image',
+          before: prev.present.image,
+          after: croppedFile,
+          overlayChanges: remapOverlaysForCrop(prev.present.overlays, imageSize, crop),
+        }));
+        setEditMask(null);
+    } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+        setError({ message: `Failed to crop the image. ${errorMessage}` });
+        console.error(err);
+    }
+  }, [currentImage, currentImageUrl]);
+
+  const handleCommitAdjustments = useCallback((adjusted: File, settings: AdjustmentSettings, replaceLast: boolean) => {
+    setHistory(prev => {
+      if (!prev) return prev;
+      const previous = lastAppliedCommand(prev);
+      const replaces = replaceLast && previous?.type === 'setImage' && !!previous.adjustments;
+      const base = replaces ? undo(prev) : prev;
+      // Resetting an adjustment that is being edited simply removes it
+      if (replaces && isIdentityAdjustment(settings)) return base;
+      return pushCommand(base, {
+        type: 'setImage',
+        label: `Adjust: ${describeAdjustments(settings) || 'reset'}`,
+        before: base.present.image,
+        after: adjusted,
+        adjustments: settings,
+      });
+    });
+    setEditMask(null);
+  }, []);
+
   const handleApplyAdjustment = useCallback(async (adjustmentPrompt: string) => {
     if (!currentImage) {
-      setError('No image loaded to apply an adjustment to.');
+      setError({ message: 'No image loaded to apply an adjustment to.' });
+      return;
+    }
+
+    if (isApiKeyMissing()) {
+      setError(MISSING_KEY_NOTICE);
       return;
     }
     
-    setIsLoading(true);
     setError(null);
     
     try {
-        const adjustedImageUrl = await generateAdjustedImage(currentImage, adjustmentPrompt);
-        const newImageFile = dataURLtoFile(adjustedImageUrl, `adjusted-${Date.now()}.png`);
-        addImageToHistory(newImageFile);
+        const adjustedImageUrls = await jobQueue.enqueue(`Adjustment: ${adjustmentPrompt}`, signal =>
+          generateVariants(variantCount, () => generateAdjustedImage(latestImage(), adjustmentPrompt, signal)));
+        presentVariants({
+          label: 'Apply adjustment',
+          fileNamePrefix: 'adjusted',
+          imageUrls: adjustedImageUrls,
+          regenerate: () => handleApplyAdjustment(adjustmentPrompt),
+        });
     } catch (err) {
+        if (isAbortError(err)) return;
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply the adjustment. ${errorMessage}`);
+        setError(createNotice(`Failed to apply the adjustment. ${errorMessage}`, err, {
+          onRetry: () => handleApplyAdjustment(adjustmentPrompt),
+          onRephrase: () => rephrase('adjust'),
+        }));
         console.error(err);
-    } finally {
-        setIsLoading(false);
     }
-  }, [currentImage, addImageToHistory]);
+  }, [currentImage, variantCount, presentVariants, jobQueue, latestImage]);
 
   const handleUndo = useCallback(() => {
     if (canUndo) {
-      setHistoryIndex(historyIndex - 1);
-      setEditHotspot(null);
-      setDisplayHotspot(null);
+      setHistory(prev => prev && undo(prev));
+      setEditMask(null);
     }
-  }, [canUndo, historyIndex]);
+  }, [canUndo]);
   
   const handleRedo = useCallback(() => {
     if (canRedo) {
-      setHistoryIndex(historyIndex + 1);
-      setEditHotspot(null);
-      setDisplayHotspot(null);
+      setHistory(prev => prev && redo(prev));
+      setEditMask(null);
     }
-  }, [canRedo, historyIndex]);
+  }, [canRedo]);
+
+  // Effect to bind Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) to undo and redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
 
   const handleReset = useCallback(() => {
-    if (history.length > 0) {
-      setHistoryIndex(0);
+    if (history) {
+      setHistory(prev => prev && jumpTo(prev, 0));
       setError(null);
-      setEditHotspot(null);
-      setDisplayHotspot(null);
+      setEditMask(null);
     }
   }, [history]);
 
   const handleUploadNew = useCallback(() => {
-      setHistory([]);
-      setHistoryIndex(-1);
+      setHistory(null);
       setError(null);
-      setPrompt('');
-      setEditHotspot(null);
-      setDisplayHotspot(null);
+      setPrompts(EMPTY_PROMPTS);
+      setEditMask(null);
   }, []);
 
-  const handleDownload = useCallback(() => {
-    if (!imageDisplayRef.current) return;
-    
-    // Create a canvas to capture the entire composition
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    // Set canvas size to match the display container
-    canvas.width = 400;
-    canvas.height = 400;
-    
-    // Fill with white background
-    ctx.fillStyle = '#ffffff';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    // Function to load and draw an image
-    const drawImage = (src: string, x: number, y: number, width: number, height: number, rotation: number = 0, opacity: number = 1) => {
-      return new Promise<void>((resolve) => {
-        const img = new Image();
-        img.crossOrigin = 'anonymous';
-        img.onload = () => {
-          ctx.save();
-          ctx.globalAlpha = opacity;
-          
-          if (rotation !== 0) {
-            const centerX = x + width / 2;
-            const centerY = y + height / 2;
-            ctx.translate(centerX, centerY);
-            ctx.rotate((rotation * Math.PI) / 180);
-            ctx.translate(-centerX, -centerY);
-          }
-          
-          ctx.drawImage(img, x, y, width, height);
-          ctx.restore();
-          resolve();
-        };
-        img.onerror = () => resolve(); // Skip failed images
-        img.src = src;
-      });
-    };
-    
-    // Draw all elements in the correct order
-    const drawComposition = async () => {
-      // 1. Draw background assets first
-      const backgroundAssets = assetOverlays.filter(overlay => overlay.category === 'backgrounds');
-      for (const asset of backgroundAssets) {
-        await drawImage(asset.src, asset.x, asset.y, asset.width, asset.height, asset.rotation, asset.opacity);
-      }
-      
-      // 2. Draw Zazu at the bottom
-      if (currentImageUrl) {
-        const zazuSize = 380; // Increased size
-        const zazuX = (canvas.width - zazuSize) / 2;
-        const zazuY = canvas.height - zazuSize; // Position at bottom
-        await drawImage(currentImageUrl, zazuX, zazuY, zazuSize, zazuSize);
-      }
-      
-      // 3. Draw foreground assets last
-      const foregroundAssets = assetOverlays.filter(overlay => overlay.category !== 'backgrounds');
-      for (const asset of foregroundAssets) {
-        await drawImage(asset.src, asset.x, asset.y, asset.width, asset.height, asset.rotation, asset.opacity);
-      }
-      
-      // Download the canvas
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const link = document.createElement('a');
-          link.href = URL.createObjectURL(blob);
-          link.download = `zazu-composition-${Date.now()}.png`;
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-          URL.revokeObjectURL(link.href);
+  // Resolves to the assets that failed to load; nothing is downloaded then unless `allowMissingAssets` is set
+  const handleExport = useCallback(async (options: ExportOptions, allowMissingAssets: boolean): Promise<FailedAsset[]> => {
+    if (!currentImageUrl) return [];
+    try {
+      const { blob, failed } = await exportComposition(currentImageUrl, assetOverlays, options);
+      if (failed.length > 0 && !allowMissingAssets) {
+        return failed;
       }
-      });
-    };
-    
-    drawComposition();
+      // Browsers fall back to PNG when they cannot encode the requested format
+      const extension = FORMAT_EXTENSIONS[blob.type as ExportFormat] ?? 'png';
+      downloadBlob(blob, `zazu-composition-${Date.now()}.${extension}`);
+      setIsExportDialogOpen(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError({ message: `Failed to export the image. ${errorMessage}` });
+      console.error(err);
+    }
+    return [];
   }, [currentImageUrl, assetOverlays]);
+
+  const handleSaveProject = useCallback(async () => {
+    if (!history) return;
+    try {
+      const blob = await serializeProject({
+        history,
+        prompts,
+        customAssets,
+      });
+      downloadBlob(blob, `zazu-project-${Date.now()}${PROJECT_FILE_EXTENSION}`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError({ message: `Failed to save the project. ${errorMessage}` });
+      console.error(err);
+    }
+  }, [history, prompts, customAssets]);
+
+  const handleOpenProject = useCallback(async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    try {
+      const project = await parseProject(file);
+      // Uploaded assets embedded in the project join the library so its overlays can load them
+      const embeddedAssets = project.customAssets ?? [];
+      await Promise.all(embeddedAssets.map(saveCustomAsset));
+      if (embeddedAssets.length > 0) {
+        setCustomAssets(prev => [...embeddedAssets, ...prev.filter(asset => !embeddedAssets.some(embedded => embedded.id === asset.id))]);
+      }
+      setHistory(project.history);
+      setPrompts(project.prompts);
+      setSession({ ...createSessionInfo(), name: file.name.replace(PROJECT_FILE_EXTENSION, '') });
+      setEditMask(null);
+      setError(null);
+      setHasStarted(true);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError({ message: `Failed to open the project. ${errorMessage}` });
+      console.error(err);
+    } finally {
+      if (projectInputRef.current) projectInputRef.current.value = '';
+    }
+  }, []);
   
+  const handleUploadAsset = useCallback(async (file: File, details: CustomAssetDetails) => {
+    const asset = createCustomAsset(file, details);
+    await saveCustomAsset(asset);
+    setCustomAssets(prev => [asset, ...prev]);
+  }, []);
+
+  const handleDeleteCustomAsset = useCallback(async (id: string) => {
+    const inUse = assetOverlays.some(overlay => overlay.src === customAssetSrc(id));
+    if (inUse && !window.confirm('This asset is used in the current image. Delete it from your library anyway?')) return;
+    try {
+      await deleteCustomAsset(id);
+      setCustomAssets(prev => prev.filter(asset => asset.id !== id));
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError({ message: `Failed to delete the asset. ${errorMessage}` });
+      console.error(err);
+    }
+  }, [assetOverlays]);
+
   const handleFileSelect = (files: FileList | null) => {
     if (files && files[0]) {
       handleImageUpload(files[0]);
     }
   };
 
-  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
-    if (activeTab !== 'retouch') return;
-    
-    const img = e.currentTarget;
-    const rect = img.getBoundingClientRect();
-
-    // Get click position relative to the image
-    const offsetX = e.clientX - rect.left;
-    const offsetY = e.clientY - rect.top;
-    
-    // Calculate the actual rendered image dimensions
-    const { naturalWidth, naturalHeight } = img;
-    const renderedWidth = img.offsetWidth;
-    const renderedHeight = img.offsetHeight;
-    
-    // Calculate scale factors based on actual rendered size
-    const scaleX = naturalWidth / renderedWidth;
-    const scaleY = naturalHeight / renderedHeight;
-
-    // Convert click position to image coordinates
-    const originalX = Math.round(offsetX * scaleX);
-    const originalY = Math.round(offsetY * scaleY);
-
-    // For display hotspot, calculate position relative to the imageDisplay container
-    if (imageDisplayRef.current) {
-      const containerRect = imageDisplayRef.current.getBoundingClientRect();
-      const containerOffsetX = e.clientX - containerRect.left;
-      const containerOffsetY = e.clientY - containerRect.top;
-      setDisplayHotspot({ x: containerOffsetX, y: containerOffsetY });
-    } else {
-      // Fallback to image coordinates
-      setDisplayHotspot({ x: offsetX, y: offsetY });
-    }
-
-    console.log('Click details:', {
-      offsetX, offsetY,
-      renderedWidth, renderedHeight,
-      naturalWidth, naturalHeight,
-      scaleX, scaleY,
-      originalX, originalY,
-      imgRect: rect
-    });
-
-    setEditHotspot({ x: originalX, y: originalY });
-};
-
-  const handleAssetSelect = useCallback((asset: { name: string; path: string; category: string }) => {
+  const handleAssetSelect = useCallback(async (asset: AssetEntry) => {
     if (!currentImage) {
-      setError('No image loaded to add assets to.');
+      setError({ message: 'No image loaded to add assets to.' });
       return;
     }
     
-    // Determine z-index based on category
-    let zIndex = 1; // Default for backgrounds (behind Zazu)
-    if (asset.category === 'eyes' || asset.category === 'hats' || asset.category === 'accessories') {
-      zIndex = 1000; // In front of Zazu
-    } else if (asset.category === 'characters') {
-      zIndex = 500; // Between background and Zazu
+    // New assets go on top of their group so they are visible straight away
+    const zIndex = nextZIndex(assetOverlays, asset.category);
+
+    // The asset's own proportions decide its height once it is scaled to the anchor's width
+    let assetSize: { width: number, height: number } | null = null;
+    try {
+      const img = await loadImage(resolveAssetUrl(asset.path));
+      assetSize = { width: img.naturalWidth, height: img.naturalHeight };
+    } catch (err) {
+      console.warn(`Could not read the size of ${asset.name}, using its default size:`, err);
     }
+    const placement = placeAsset(asset, assetSize, baseImageSize, characterAnchors);
     
     // Create a new asset overlay
-    const newOverlay = {
+    const newOverlay: Overlay = {
       id: `asset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       src: asset.path,
       name: asset.name,
       category: asset.category,
-      x: asset.category === 'backgrounds' ? 0 : 50, // Backgrounds start at origin
-      y: asset.category === 'backgrounds' ? 0 : 50,
-      width: asset.category === 'backgrounds' ? 400 : 100, // Backgrounds use canvas size
-      height: asset.category === 'backgrounds' ? 400 : 100,
+      ...placement,
       rotation: 0,
       opacity: 1,
       zIndex: zIndex
     };
     
-    setAssetOverlays(prev => [...prev, newOverlay]);
+    executeCommand({ type: 'addOverlays', label: `Add ${asset.name}`, overlays: [newOverlay] });
+    setSelectedOverlayIds([newOverlay.id]);
     setIsEditingAssets(true);
-  }, [currentImage]);
+  }, [currentImage, assetOverlays, baseImageSize, characterAnchors, executeCommand]);
 
-  const handleUpdateOverlay = useCallback((id: string, updates: Partial<typeof assetOverlays[0]>) => {
-    setAssetOverlays(prev => prev.map(overlay => 
-      overlay.id === id ? { ...overlay, ...updates } : overlay
-    ));
+  // `mergeKey` groups the many updates of a single drag/resize gesture into one undo entry
+  const handleUpdateOverlay = useCallback((id: string, updates: Partial<Overlay>, mergeKey?: string) => {
+    setHistory(prev => {
+      if (!prev) return prev;
+      const command = createOverlayUpdate(prev.present, id, updates, 'Update asset', mergeKey);
+      return command ? pushCommand(prev, command) : prev;
+    });
+  }, []);
+
+  const handleUpdateOverlays = useCallback((updates: OverlayUpdate[], mergeKey?: string) => {
+    setHistory(prev => {
+      if (!prev) return prev;
+      const command = createOverlaysUpdate(prev.present, updates, 'Update assets', mergeKey);
+      return command ? pushCommand(prev, command) : prev;
+    });
   }, []);
 
   const handleRemoveOverlay = useCallback((id: string) => {
-    setAssetOverlays(prev => prev.filter(overlay => overlay.id !== id));
+    setHistory(prev => {
+      if (!prev) return prev;
+      const command = createOverlayRemoval(prev.present, [id], 'Remove asset');
+      return command ? pushCommand(prev, command) : prev;
+    });
   }, []);
 
-  const handleAddOverlay = useCallback((overlay: typeof assetOverlays[0]) => {
-    setAssetOverlays(prev => [...prev, overlay]);
+  const handleAddOverlay = useCallback((overlay: Overlay) => {
+    executeCommand({ type: 'addOverlays', label: `Add ${overlay.name}`, overlays: [overlay] });
+  }, [executeCommand]);
+
+  const handleReorderLayers = useCallback((order: string[]) => {
+    setHistory(prev => {
+      if (!prev) return prev;
+      const changes = reorderLayers(prev.present.overlays, order);
+      return changes.length > 0 ? pushCommand(prev, { type: 'updateOverlays', label: 'Reorder layers', changes }) : prev;
+    });
+  }, []);
+
+  const handleAddText = useCallback(async (text: TextLayer, position: CaptionPosition) => {
+    // Measure with the real font, not the fallback shown while it downloads
+    await loadTextLayerFonts([text]);
+    const newOverlay = createTextOverlay(assetOverlays, text, position);
+    executeCommand({ type: 'addOverlays', label: 'Add text', overlays: [newOverlay] });
+    setSelectedOverlayIds([newOverlay.id]);
+    setIsEditingAssets(true);
+  }, [assetOverlays, executeCommand]);
+
+  const handleUpdateText = useCallback((id: string, text: TextLayer, mergeKey?: string) => {
+    setHistory(prev => {
+      const overlay = prev?.present.overlays.find(candidate => candidate.id === id);
+      if (!prev || !overlay) return prev;
+      const command = createOverlayUpdate(prev.present, id, restyleTextOverlay(overlay, text), 'Edit text', mergeKey);
+      return command ? pushCommand(prev, command) : prev;
+    });
+  }, []);
+
+  const selectedText = useMemo(() => {
+    const selected = selectedIds.length === 1 ? assetOverlays.find(overlay => overlay.id === selectedIds[0]) : undefined;
+    return selected && isTextOverlay(selected) ? selected : null;
+  }, [selectedIds, assetOverlays]);
+
+  // The drawing layer new strokes go into, if it still exists and can be drawn on
+  const drawingTarget = useMemo(() => {
+    const target = assetOverlays.find(overlay => overlay.id === drawingTargetId);
+    return target && isDrawingOverlay(target) && !target.locked && !target.hidden ? target : null;
+  }, [assetOverlays, drawingTargetId]);
+
+  const handleDrawStroke = useCallback((stroke: DrawingStroke) => {
+    if (drawingTarget) {
+      const label = stroke.tool === 'eraser' ? 'Erase' : 'Draw';
+      setHistory(prev => {
+        const target = prev?.present.overlays.find(overlay => overlay.id === drawingTarget.id);
+        if (!prev || !target || !isDrawingOverlay(target)) return prev;
+        const command = createOverlayUpdate(prev.present, target.id, addStrokeToDrawing(target, stroke), label);
+        return command ? pushCommand(prev, command) : prev;
+      });
+      return;
+    }
+    // Erasing without a layer has nothing to erase
+    if (stroke.tool === 'eraser') return;
+    const newOverlay = createDrawingOverlay(assetOverlays, stroke);
+    executeCommand({ type: 'addOverlays', label: 'Add drawing', overlays: [newOverlay] });
+    setDrawingTargetId(newOverlay.id);
+  }, [drawingTarget, assetOverlays, executeCommand]);
+
+  const handleUpdateLayer = useCallback((id: string, updates: Partial<Overlay>) => {
+    const label = 'hidden' in updates ? (updates.hidden ? 'Hide layer' : 'Show layer')
+      : 'locked' in updates ? (updates.locked ? 'Lock layer' : 'Unlock layer')
+      : 'Rename layer';
+    setHistory(prev => {
+      if (!prev) return prev;
+      const command = createOverlayUpdate(prev.present, id, updates, label);
+      return command ? pushCommand(prev, command) : prev;
+    });
+  }, []);
+
+  const handleDuplicateOverlays = useCallback((ids: string[]) => {
+    const originals = assetOverlays.filter(overlay => ids.includes(overlay.id));
+    if (originals.length === 0) return;
+    const copies = originals.map(duplicateOverlay);
+    const label = originals.length === 1 ? `Duplicate ${originals[0].name}` : `Duplicate ${originals.length} assets`;
+    executeCommand({ type: 'addOverlays', label, overlays: copies });
+    setSelectedOverlayIds(copies.map(copy => copy.id));
+  }, [assetOverlays, executeCommand]);
+
+  const handleSelectLayer = useCallback((id: string, additive: boolean) => {
+    setSelectedOverlayIds(prev => additive
+      ? (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id])
+      : [id]);
+    setIsEditingAssets(true);
   }, []);
 
+  const handleNudgeSelection = useCallback((deltaX: number, deltaY: number, mergeKey?: string) => {
+    const updates = assetOverlays
+      .filter(overlay => selectedIds.includes(overlay.id) && !overlay.locked)
+      .map(overlay => ({ id: overlay.id, updates: { x: overlay.x + deltaX, y: overlay.y + deltaY } }));
+    setHistory(prev => {
+      if (!prev) return prev;
+      const command = createOverlaysUpdate(prev.present, updates, 'Nudge assets', mergeKey);
+      return command ? pushCommand(prev, command) : prev;
+    });
+  }, [assetOverlays, selectedIds]);
+
+  const handleRemoveSelection = useCallback(() => {
+    const ids = assetOverlays.filter(overlay => selectedIds.includes(overlay.id) && !overlay.locked).map(overlay => overlay.id);
+    setHistory(prev => {
+      if (!prev) return prev;
+      const command = createOverlayRemoval(prev.present, ids, ids.length === 1 ? 'Remove asset' : `Remove ${ids.length} assets`);
+      return command ? pushCommand(prev, command) : prev;
+    });
+  }, [assetOverlays, selectedIds]);
+
+  const handleCopySelection = useCallback(() => {
+    overlayClipboardRef.current = assetOverlays.filter(overlay => selectedIds.includes(overlay.id));
+  }, [assetOverlays, selectedIds]);
+
+  const handlePaste = useCallback(() => {
+    const copied = overlayClipboardRef.current;
+    if (copied.length === 0 || !currentImage) return;
+    const pasted = copied.map(overlay => ({ ...duplicateOverlay(overlay), name: overlay.name }));
+    overlayClipboardRef.current = pasted;
+    executeCommand({ type: 'addOverlays', label: pasted.length === 1 ? `Paste ${pasted[0].name}` : `Paste ${pasted.length} assets`, overlays: pasted });
+    setSelectedOverlayIds(pasted.map(overlay => overlay.id));
+    setIsEditingAssets(true);
+  }, [currentImage, executeCommand]);
+
+  const handleMoveSelection = useCallback((direction: 'up' | 'down') => {
+    setHistory(prev => {
+      if (!prev) return prev;
+      const order = moveLayers(prev.present.overlays, selectedIds, direction);
+      const changes = reorderLayers(prev.present.overlays, order);
+      const label = direction === 'up' ? 'Bring forward' : 'Send backward';
+      return changes.length > 0 ? pushCommand(prev, { type: 'updateOverlays', label, changes }) : prev;
+    });
+  }, [selectedIds]);
+
+  // Effect to bind the selection shortcuts: arrows nudge, Delete removes, Ctrl+D duplicates,
+  // Ctrl+C/Ctrl+V copy and paste, and [ / ] move the selection down or up a layer
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      const withModifier = e.ctrlKey || e.metaKey;
+
+      if (withModifier && key === 'v') {
+        if (overlayClipboardRef.current.length === 0) return;
+        e.preventDefault();
+        handlePaste();
+        return;
+      }
+      if (selectedIds.length === 0) return;
+
+      const arrows: Record<string, [number, number]> = {
+        arrowleft: [-1, 0],
+        arrowright: [1, 0],
+        arrowup: [0, -1],
+        arrowdown: [0, 1],
+      };
+      if (arrows[key] && !withModifier) {
+        e.preventDefault();
+        if (!e.repeat) nudgeKeyRef.current = `nudge-${Date.now()}`;
+        const step = e.shiftKey ? 10 : 1;
+        handleNudgeSelection(arrows[key][0] * step, arrows[key][1] * step, nudgeKeyRef.current);
+      } else if ((key === 'delete' || key === 'backspace') && !withModifier) {
+        e.preventDefault();
+        handleRemoveSelection();
+      } else if (withModifier && key === 'd') {
+        e.preventDefault();
+        handleDuplicateOverlays(selectedIds);
+      } else if (withModifier && key === 'c') {
+        // Leave normal text copying alone
+        if (window.getSelection()?.toString()) return;
+        e.preventDefault();
+        handleCopySelection();
+      } else if ((key === '[' || key === ']') && !withModifier) {
+        e.preventDefault();
+        handleMoveSelection(key === ']' ? 'up' : 'down');
+      } else if (key === 'escape') {
+        setSelectedOverlayIds([]);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedIds, handlePaste, handleNudgeSelection, handleRemoveSelection, handleDuplicateOverlays, handleCopySelection, handleMoveSelection]);
+
+  const handleTabChange = (tab: Tab) => {
+    setActiveTab(tab);
+    // A drawing layer picked in the Layers tab is the one to keep drawing into
+    if (tab === 'draw') {
+      const selected = selectedIds.length === 1 ? assetOverlays.find(overlay => overlay.id === selectedIds[0]) : undefined;
+      if (selected && isDrawingOverlay(selected)) setDrawingTargetId(selected.id);
+    }
+    // Asset handles are only shown on the asset, text and layer tabs
+    const editing = ASSET_EDITING_TABS.includes(tab);
+    setIsEditingAssets(editing);
+    if (!editing) setSelectedOverlayIds([]);
+  };
+
+  const handleClearOverlays = useCallback(() => {
+    setHistory(prev => {
+      if (!prev) return prev;
+      const command = createOverlayRemoval(prev.present, prev.present.overlays.map(overlay => overlay.id), 'Clear all assets');
+      return command ? pushCommand(prev, command) : prev;
+    });
+  }, []);
+
+  const sessionPicker = sessionPickerMode && (
+    <SessionPicker
+      sessions={sessions}
+      activeSessionId={session?.id ?? null}
+      title={sessionPickerMode === 'restore' ? 'Restore previous session?' : 'Sessions'}
+      onRestore={handleRestoreSession}
+      onDelete={handleDeleteSession}
+      onStartNew={handleStartNewSession}
+      onClose={sessionPickerMode === 'manage' ? () => setSessionPickerMode(null) : undefined}
+    />
+  );
+
+  const settingsDialog = isSettingsOpen && (
+    <SettingsDialog
+      onTest={testApiSettings}
+      onSave={handleSaveSettings}
+      onClose={() => setIsSettingsOpen(false)}
+    />
+  );
+
   // Early returns for different states
-    if (error) {
-       return (
-      <div className="min-h-screen text-gray-100 flex flex-col">
-        <Header />
-        <main className="flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center items-center">
-           <div className="text-center animate-fade-in bg-red-500/10 border border-red-500/20 p-8 rounded-lg max-w-2xl mx-auto flex flex-col items-center gap-4">
-            <h2 className="text-2xl font-bold text-red-300">An Error Occurred</h2>
-            <p className="text-md text-red-400">{error}</p>
-            <button
-                onClick={() => setError(null)}
-                className="bg-red-500 hover:bg-red-600 text-white font-bold py-2 px-6 rounded-lg text-md transition-colors"
-              >
-                Try Again
-            </button>
-          </div>
-        </main>
-      </div>
-    );
-  }
-  
   if (!hasStarted) {
     return (
       <div className="min-h-screen text-gray-100 flex flex-col">
-        <Header />
+        <Header onOpenSettings={() => setIsSettingsOpen(true)} isApiKeyMissing={apiKeyMissing} />
+        {sessionPicker}
+        {settingsDialog}
         <main className="flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center items-center">
           <div className="w-full max-w-4xl mx-auto flex flex-col items-center gap-6 animate-fade-in">
             <div className="relative w-[500px] h-[500px] mx-auto bg-gray-800 rounded-xl flex items-center justify-center">
@@ -492,26 +1130,22 @@ const App: React.FC = () => {
                 </div>
               )}
             </div>
+
+            {error && <ErrorNotice notice={error} onDismiss={() => setError(null)} onOpenSettings={() => setIsSettingsOpen(true)} />}
             
             {/* Show the toolbar even when loading */}
             <div className="w-full bg-gray-800/80 border border-gray-700/80 rounded-lg p-2 flex items-center justify-center gap-2 backdrop-blur-sm">
-              {(['retouch', 'adjust', 'filters', 'backgrounds', 'eyes', 'hats', 'accessories'] as Tab[]).map(tab => (
+              {(['retouch', 'crop', 'adjust', 'filters', 'assets', 'text', 'draw', 'layers'] as Tab[]).map(tab => (
                 <button
                   key={tab}
-                  onClick={() => {
-                    setActiveTab(tab);
-                    setIsEditingAssets(false); // Turn off editing mode when switching tabs
-                  }}
+                  onClick={() => handleTabChange(tab)}
                   className={`w-full capitalize font-semibold py-3 px-5 rounded-md transition-all duration-200 text-base ${
                     activeTab === tab 
                       ? 'bg-gradient-to-br from-blue-500 to-cyan-400 text-white shadow-lg shadow-cyan-500/40' 
                       : 'text-gray-300 hover:text-white hover:bg-white/10'
                   }`}
                 >
-                  {tab === 'backgrounds' ? 'Backgrounds' : 
-                   tab === 'eyes' ? 'Eyes' : 
-                   tab === 'hats' ? 'Hats' : 
-                   tab === 'accessories' ? 'Accessories' : tab}
+                  {tab}
                 </button>
               ))}
             </div>
@@ -524,7 +1158,7 @@ const App: React.FC = () => {
     if (!currentImageUrl) {
     return (
       <div className="min-h-screen text-gray-100 flex flex-col">
-        <Header />
+        <Header onOpenSettings={() => setIsSettingsOpen(true)} isApiKeyMissing={apiKeyMissing} />
         <main className="flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center items-center">
           <div className="flex flex-col items-center justify-center h-96">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mb-4"></div>
@@ -536,49 +1170,27 @@ const App: React.FC = () => {
     }
 
     const imageDisplay = (
-    <div ref={imageDisplayRef} className="relative mx-auto overflow-hidden rounded-xl bg-white border-2 border-gray-300" style={{ width: '400px', height: '400px' }}>
-      {/* Background assets (behind Zazu) - canvas size matches background */}
-      {assetOverlays.filter(overlay => overlay.category === 'backgrounds').map((overlay) => (
-        <div
-          key={overlay.id}
-          className="absolute inset-0"
-          style={{
-            zIndex: overlay.zIndex,
-            opacity: overlay.opacity,
-            transform: `rotate(${overlay.rotation}deg)`
-          }}
-        >
-          <img
-            src={overlay.src}
-            alt={overlay.name}
-            className="w-full h-full object-cover"
-            draggable={false}
-          />
-        </div>
-      ))}
+    <div
+      ref={imageDisplayRef}
+      className="relative mx-auto overflow-hidden rounded-xl bg-white border-2 border-gray-300"
+      style={{ width: `${STAGE_SIZE}px`, height: `${STAGE_SIZE}px` }}
+    >
+      {/* Every layer, including backgrounds and the base image, is drawn by the shared renderer */}
+      <CompositionCanvas
+        layers={compositionLayers}
+        onFailedAssetsChange={setFailedAssets}
+        className="absolute inset-0"
+      />
       
-      {/* Zazu image - positioned at bottom */}
-      <div className="absolute inset-0 flex items-end justify-center z-20">
-        <img
-            ref={imgRef}
-            key={currentImageUrl}
-            src={currentImageUrl}
-          alt="Zazu"
-            onClick={handleImageClick}
-          className={`object-contain transition-opacity duration-200 ease-in-out ${isComparing ? 'opacity-0' : 'opacity-100'} ${activeTab === 'retouch' ? 'cursor-crosshair' : ''}`}
-          style={{ 
-            width: '380px',
-            height: '380px'
-          }}
-        />
-      </div>
-      
-      {/* Foreground assets (in front of Zazu) */}
-      {assetOverlays.filter(overlay => overlay.category !== 'backgrounds').length > 0 && (
+      {/* Interaction layer for foreground assets; they are drawn by the canvas underneath */}
+      {assetOverlays.filter(overlay => overlay.category !== 'backgrounds' && !overlay.hidden).length > 0 && (
         <div className="absolute top-0 left-0 w-full h-full z-30">
           <AssetOverlay
-            overlays={assetOverlays.filter(overlay => overlay.category !== 'backgrounds')}
+            overlays={assetOverlays.filter(overlay => overlay.category !== 'backgrounds' && !overlay.hidden)}
+            selectedIds={selectedIds}
+            onSelectionChange={setSelectedOverlayIds}
             onUpdateOverlay={handleUpdateOverlay}
+            onUpdateOverlays={handleUpdateOverlays}
             onRemoveOverlay={handleRemoveOverlay}
             onAddOverlay={handleAddOverlay}
             isEditing={isEditingAssets}
@@ -587,13 +1199,32 @@ const App: React.FC = () => {
         </div>
       )}
       
-      {/* Display hotspot for retouch feedback */}
-      {displayHotspot && !isLoading && activeTab === 'retouch' && (
-        <div 
-          className="absolute rounded-full w-6 h-6 bg-blue-500/50 border-2 border-white pointer-events-none -translate-x-1/2 -translate-y-1/2 z-40"
-          style={{ left: `${displayHotspot.x}px`, top: `${displayHotspot.y}px` }}
-        >
-          <div className="absolute inset-0 rounded-full w-6 h-6 animate-ping bg-blue-400"></div>
+      {/* Freehand drawing */}
+      {activeTab === 'draw' && (
+        <div className="absolute inset-0 z-40">
+          <DrawingPainter
+            tool={drawingTool}
+            color={drawingColor}
+            width={drawingWidth}
+            disabled={isLoading}
+            onStroke={handleDrawStroke}
+          />
+        </div>
+      )}
+
+      {/* Mask painting for retouch edits */}
+      {activeTab === 'retouch' && baseImageSize && (
+        <div className="absolute inset-0 z-40">
+          <MaskPainter
+            imageSize={baseImageSize}
+            imageRect={computeFitRect(baseImageSize.width, baseImageSize.height, BASE_IMAGE_BOX, 'contain')}
+            mask={editMask}
+            tool={maskTool}
+            mode={maskMode}
+            brushSize={maskBrushSize}
+            disabled={isLoading}
+            onMaskChange={setEditMask}
+          />
         </div>
       )}
     </div>
@@ -601,8 +1232,35 @@ const App: React.FC = () => {
 
     return (
     <div className="min-h-screen text-gray-100 flex flex-col">
-      <Header />
-      <main className="flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex justify-center items-start">
+      <Header onOpenSettings={() => setIsSettingsOpen(true)} isApiKeyMissing={apiKeyMissing} />
+      {sessionPicker}
+      {settingsDialog}
+      {isExportDialogOpen && (
+        <ExportDialog onExport={handleExport} onClose={() => setIsExportDialogOpen(false)} />
+      )}
+      {isUploadDialogOpen && (
+        <AssetUploadDialog onUpload={handleUploadAsset} onClose={() => setIsUploadDialogOpen(false)} />
+      )}
+      <JobsDrawer jobs={jobs} onCancel={jobQueue.cancel} onClearFinished={jobQueue.clearFinished} />
+      {variantChoice && (
+        <VariantPicker
+          label={variantChoice.label}
+          imageUrls={variantChoice.imageUrls}
+          isLoading={!!runningJob}
+          onPick={handlePickVariant}
+          onRegenerate={handleRegenerateVariants}
+          onClose={handleCloseVariantPicker}
+        />
+      )}
+      {isCutoutEditorOpen && currentImage && (
+        <CutoutEditor
+          image={currentImage}
+          onRequestAiMask={(image) => jobQueue.enqueue('Detect subject', signal => generateSubjectMask(image, signal))}
+          onApply={handleApplyCutout}
+          onClose={() => setIsCutoutEditorOpen(false)}
+        />
+      )}
+      <main className="flex-grow w-full max-w-[1600px] mx-auto p-4 md:p-8 flex flex-col lg:flex-row justify-center items-start gap-6">
       <div className="w-full max-w-4xl mx-auto flex flex-col items-center gap-6 animate-fade-in">
         <div className="relative w-full shadow-2xl rounded-xl overflow-hidden bg-black/20">
             {isLoading && (
@@ -611,233 +1269,171 @@ const App: React.FC = () => {
                     <p className="text-gray-300">AI is working its magic...</p>
                 </div>
             )}
+            {runningJob && (
+                <div className="absolute top-3 left-1/2 -translate-x-1/2 z-50 max-w-[90%] flex items-center gap-2 px-4 py-2 bg-black/70 rounded-full text-sm text-gray-200 pointer-events-none animate-fade-in">
+                    <span className="w-2 h-2 flex-shrink-0 rounded-full bg-blue-400 animate-pulse" />
+                    <span className="truncate">{runningJob.status === 'retrying' ? 'Retrying' : 'Working on'}: {runningJob.label}</span>
+                </div>
+            )}
             
             {imageDisplay}
         </div>
+
+        {error && <ErrorNotice notice={error} onDismiss={() => setError(null)} onOpenSettings={() => setIsSettingsOpen(true)} />}
+
+        {failedAssets.length > 0 && (
+          <div className="w-full bg-yellow-500/10 border border-yellow-500/30 text-yellow-300 rounded-lg p-3 text-sm">
+            Couldn't load {failedAssets.length === 1 ? 'this asset' : 'these assets'}: {failedAssets.map(asset => asset.name).join(', ')}.
+            {' '}They are missing from the preview and will be missing from exports.
+          </div>
+        )}
         
         <div className="w-full bg-gray-800/80 border border-gray-700/80 rounded-lg p-2 flex items-center justify-center gap-2 backdrop-blur-sm">
-            {(['retouch', 'adjust', 'filters', 'backgrounds', 'eyes', 'hats', 'accessories'] as Tab[]).map(tab => (
+            {(['retouch', 'crop', 'adjust', 'filters', 'assets', 'text', 'draw', 'layers'] as Tab[]).map(tab => (
                  <button
                     key={tab}
-                onClick={() => {
-                  setActiveTab(tab);
-                  setIsEditingAssets(false); // Turn off editing mode when switching tabs
-                }}
+                onClick={() => handleTabChange(tab)}
                     className={`w-full capitalize font-semibold py-3 px-5 rounded-md transition-all duration-200 text-base ${
                         activeTab === tab 
                         ? 'bg-gradient-to-br from-blue-500 to-cyan-400 text-white shadow-lg shadow-cyan-500/40' 
                         : 'text-gray-300 hover:text-white hover:bg-white/10'
                     }`}
                 >
-                {tab === 'backgrounds' ? 'Backgrounds' : 
-                 tab === 'eyes' ? 'Eyes' : 
-                 tab === 'hats' ? 'Hats' : 
-                 tab === 'accessories' ? 'Accessories' : tab}
+                {tab}
                 </button>
             ))}
         </div>
         
+        {VARIANT_TABS.includes(activeTab) && (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <span>Variants per request</span>
+            {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+              <button
+                key={count}
+                onClick={() => setVariantCount(count)}
+                disabled={isLoading}
+                className={`w-8 h-8 rounded-md font-semibold transition-colors disabled:opacity-50 ${
+                  variantCount === count ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                }`}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="w-full">
             {activeTab === 'retouch' && (
                 <div className="flex flex-col items-center gap-4">
                     <p className="text-md text-gray-400">
-                  {editHotspot ? 'Great! Now describe how you want to edit Zazu.' : 'Click an area on Zazu to make a precise edit.'}
+                  {editMask ? 'Great! Now describe how you want to edit the selected area.' : 'Paint over the part of Zazu you want to edit.'}
                     </p>
+                    <ToolOptions
+                      tool={maskTool}
+                      mode={maskMode}
+                      brushSize={maskBrushSize}
+                      hasMask={!!editMask}
+                      disabled={isLoading}
+                      onToolChange={setMaskTool}
+                      onModeChange={setMaskMode}
+                      onBrushSizeChange={setMaskBrushSize}
+                      onClearMask={() => setEditMask(null)}
+                    />
                     <form onSubmit={(e) => { e.preventDefault(); handleGenerate(); }} className="w-full flex items-center gap-2">
                         <input
+                            ref={promptInputRef}
                             type="text"
                             value={prompt}
                             onChange={(e) => setPrompt(e.target.value)}
-                    placeholder={editHotspot ? "e.g., 'make Zazu wear a cowboy hat' or 'change Zazu's expression to happy'" : "First click a point on Zazu"}
+                    placeholder={editMask ? "e.g., 'make Zazu wear a cowboy hat' or 'change Zazu's expression to happy'" : "First paint over an area of Zazu"}
                             className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-lg p-5 text-lg focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60"
-                            disabled={isLoading || !editHotspot}
+                            disabled={isLoading || !editMask}
                         />
                         <button 
                             type="submit"
                             className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-5 px-8 text-lg rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-                            disabled={isLoading || !prompt.trim() || !editHotspot}
+                            disabled={isLoading || !prompt.trim() || !editMask}
                         >
                             Generate
                         </button>
                     </form>
-                </div>
-            )}
-            {activeTab === 'adjust' && <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} isLoading={isLoading} />}
-            {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} />}
-            {activeTab === 'backgrounds' && (
-              <div className="flex flex-col items-center gap-6">
-                <div className="text-center">
-                  <h3 className="text-xl font-bold text-white mb-2">Backgrounds</h3>
-                  <p className="text-gray-400">Click on any background to add it to Zazu</p>
-                </div>
-                
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 max-w-6xl">
-                  {[
-                    { name: 'Matrix', path: '/assets/backgrounds/matrix-5361690_1280.webp' },
-                    { name: 'CSGO Dust', path: '/assets/backgrounds/csgo-dust-2-map-portion.avif' },
-                    { name: 'Stonks', path: '/assets/backgrounds/stonks.webp' },
-                    { name: 'Business', path: '/assets/backgrounds/businessman-zazu-v0-tl153ilewywd1.webp' },
-                    { name: 'Green', path: '/assets/backgrounds/green.jpg' },
-                    { name: 'Mars', path: '/assets/backgrounds/mars].jpg' },
-                    { name: 'Palm Tree', path: '/assets/backgrounds/palm-tree-on-tropical-beach-600nw-2154569741.webp' },
-                    { name: 'Financial', path: '/assets/backgrounds/pngtree-financial-market-candlestick-chart-depicting-forex-trends-with-red-and-green-candles-photo-image_29955316.jpg' },
-                    { name: 'Abstract 1', path: '/assets/backgrounds/28de83405317503236d1625e11031acc.jpg' },
-                    { name: 'Abstract 2', path: '/assets/backgrounds/440557281.jpg' },
-                    { name: 'Abstract 3', path: '/assets/backgrounds/7mjhif166f641.jpg' },
-                    { name: 'Download', path: '/assets/backgrounds/download.png' },
-                    { name: 'HQ 720', path: '/assets/backgrounds/hq720.jpg' },
-                    { name: '1000 Yard Stare', path: '/assets/backgrounds/i-give-up-can-someone-make-this-have-the-1000-yard-stare-v0-0xk9rgdol35e1.png' },
-                    { name: 'Etsy Design', path: '/assets/backgrounds/il_570xN.3774897538_agib.webp' },
-                    { name: 'Nature Photo', path: '/assets/backgrounds/photo-1465101162946-4377e57745c3.jpg' },
-                    { name: 'US Flag', path: '/assets/backgrounds/US-15.jpg' },
-                    { name: 'Gradient', path: '/assets/backgrounds/djnu1oa-147970c1-d3e3-4ade-9d6e-34d11ff71c31.png' }
-                  ].map((asset) => (
                     <button
-                      key={asset.name}
-                      onClick={() => handleAssetSelect({ ...asset, category: 'backgrounds' })}
-                      className="group relative overflow-hidden rounded-lg border-2 border-gray-600 hover:border-blue-500 transition-all duration-200 hover:scale-105"
+                      onClick={() => setIsCutoutEditorOpen(true)}
+                      disabled={isLoading}
+                      className="text-sm text-gray-400 hover:text-white underline underline-offset-4 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      <img
-                        src={asset.path}
-                        alt={asset.name}
-                        className="w-full h-24 object-cover"
-                        onError={(e) => {
-                          e.currentTarget.src = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjgwIiB2aWV3Qm94PSIwIDAgMTAwIDgwIiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPjxyZWN0IHdpZHRoPSIxMDAiIGhlaWdodD0iODAiIGZpbGw9IiMzMzMiLz48dGV4dCB4PSI1MCIgeT0iNDAiIGZvbnQtZmFtaWx5PSJBcmlhbCIgZm9udC1zaXplPSIxMiIgZmlsbD0iIzk5OSIgdGV4dC1hbmNob3I9Im1pZGRsZSI+SW1hZ2U8L3RleHQ+PC9zdmc+';
-                        }}
-                      />
-                      <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center justify-center">
-                        <span className="text-white text-sm font-medium">{asset.name}</span>
-                      </div>
+                      Photo has a background? Cut out the subject
                     </button>
-                  ))}
                 </div>
-              </div>
+            )}
+            {activeTab === 'crop' && <CropPanel imageUrl={currentImageUrl} isLoading={isLoading} onApplyCrop={handleApplyCrop} />}
+            {activeTab === 'adjust' && currentImage && (
+              <AdjustmentPanel
+                onApplyAdjustment={handleApplyAdjustment}
+                prompt={adjustmentPrompt}
+                onPromptChange={setAdjustmentPrompt}
+                isLoading={isLoading}
+                currentImage={currentImage}
+                lastAdjustment={lastAdjustment}
+                onPreviewChange={setImagePreviewUrl}
+                onCommitAdjustments={handleCommitAdjustments}
+              />
+            )}
+            {activeTab === 'filters' && currentImage && (
+              <FilterPanel
+                onApplyFilter={handleApplyFilter}
+                prompt={filterPrompt}
+                onPromptChange={setFilterPrompt}
+                isLoading={isLoading}
+                currentImage={currentImage}
+                onPreviewChange={setImagePreviewUrl}
+                onCommitFilter={handleCommitLocalFilter}
+              />
+            )}
+            {activeTab === 'assets' && (
+              <AssetBrowser
+                onAssetSelect={handleAssetSelect}
+                customAssets={customAssetEntries}
+                onUploadClick={() => setIsUploadDialogOpen(true)}
+                onDeleteCustomAsset={handleDeleteCustomAsset}
+              />
             )}
 
-            {activeTab === 'eyes' && (
-              <div className="flex flex-col items-center gap-6">
-                <div className="text-center">
-                  <h3 className="text-xl font-bold text-white mb-2">Eyes</h3>
-                  <p className="text-gray-400">Click on any eyewear to add it to Zazu</p>
-                </div>
-                
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 max-w-4xl">
-                  {[
-                    { name: 'Clout Goggles', path: '/assets/eyes/7-79919_cartoon-clout-goggles-transparent-hd-png-download-removebg-preview.png' },
-                    { name: '8bit Glasses', path: '/assets/eyes/8bit-glasses.png' },
-                    { name: 'Shutter Shades', path: '/assets/eyes/png-transparent-white-eyewear-shutter-shades-aviator-sunglasses-shutter-s-text-monochrome-glasses-removebg-preview.png' },
-                    { name: 'Eye Glass', path: '/assets/eyes/pngtree-eye-glass-vector-png-image_4485520-removebg-preview.png' },
-                    { name: 'Sport Glasses', path: '/assets/eyes/pngtree-sport-glasses-mockup-mock-up-picture-image_7736765-removebg-preview.png' },
-                    { name: 'Design Glasses', path: '/assets/eyes/rBVaJFl_9t-AYmVHAAEE3Xj8F_Q250-removebg-preview.png' },
-                    { name: 'Sunglasses', path: '/assets/eyes/sunglasses-clipart-design-illustration-free-png-removebg-preview (1).png' }
-                  ].map((asset) => (
-                    <button
-                      key={asset.name}
-                      onClick={() => handleAssetSelect({ ...asset, category: 'eyes' })}
-                      className="group relative overflow-hidden rounded-lg border-2 border-gray-600 hover:border-blue-500 transition-all duration-200 hover:scale-105"
-                    >
-                      <img
-                        src={asset.path}
-                        alt={asset.name}
-                        className="w-full h-24 object-cover"
-                        onError={(e) => {
-                          e.currentTarget.src = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjgwIiB2aWV3Qm94PSIwIDAgMTAwIDgwIiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPjxyZWN0IHdpZHRoPSIxMDAiIGhlaWdodD0iODAiIGZpbGw9IiMzMzMiLz48dGV4dCB4PSI1MCIgeT0iNDAiIGZvbnQtZmFtaWx5PSJBcmlhbCIgZm9udC1zaXplPSIxMiIgZmlsbD0iIzk5OSIgdGV4dC1hbmNob3I9Im1pZGRsZSI+SW1hZ2U8L3RleHQ+PC9zdmc+';
-                        }}
-                      />
-                      <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center justify-center">
-                        <span className="text-white text-sm font-medium">{asset.name}</span>
-                      </div>
-                    </button>
-                  ))}
-                </div>
-              </div>
+            {activeTab === 'text' && (
+              <TextPanel selectedText={selectedText} onAddText={handleAddText} onUpdateText={handleUpdateText} />
             )}
 
-            {activeTab === 'hats' && (
-              <div className="flex flex-col items-center gap-6">
-                <div className="text-center">
-                  <h3 className="text-xl font-bold text-white mb-2">Hats</h3>
-                  <p className="text-gray-400">Click on any hat to add it to Zazu</p>
-                </div>
-                
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 max-w-4xl">
-                  {[
-                    { name: 'Army Helmet', path: '/assets/hats/army-helmet.png' },
-                    { name: 'Beanie', path: '/assets/hats/beanie.png' },
-                    { name: 'Cowboy Hat', path: '/assets/hats/cowboy-hat.png' },
-                    { name: 'MAGA Hat', path: '/assets/hats/maga-hat.png' },
-                    { name: 'Blazer', path: '/assets/hats/pngtree-blue-blazer-red-twill-tie-png-image_15403080.png' },
-                    { name: 'Random Hat', path: '/assets/hats/random-hat.png' },
-                    { name: 'Viking Helmet', path: '/assets/hats/viking-helmets-with-transparent-cutout-free-png-removebg-preview.png' },
-                    { name: 'Yankees Hat', path: '/assets/hats/yankees-hat.png' }
-                  ].map((asset) => (
-                    <button
-                      key={asset.name}
-                      onClick={() => handleAssetSelect({ ...asset, category: 'hats' })}
-                      className="group relative overflow-hidden rounded-lg border-2 border-gray-600 hover:border-blue-500 transition-all duration-200 hover:scale-105"
-                    >
-                      <img
-                        src={asset.path}
-                        alt={asset.name}
-                        className="w-full h-24 object-cover"
-                        onError={(e) => {
-                          e.currentTarget.src = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjgwIiB2aWV3Qm94PSIwIDAgMTAwIDgwIiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPjxyZWN0IHdpZHRoPSIxMDAiIGhlaWdodD0iODAiIGZpbGw9IiMzMzMiLz48dGV4dCB4PSI1MCIgeT0iNDAiIGZvbnQtZmFtaWx5PSJBcmlhbCIgZm9udC1zaXplPSIxMiIgZmlsbD0iIzk5OSIgdGV4dC1hbmNob3I9Im1pZGRsZSI+SW1hZ2U8L3RleHQ+PC9zdmc+';
-                        }}
-                      />
-                      <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center justify-center">
-                        <span className="text-white text-sm font-medium">{asset.name}</span>
-                      </div>
-                    </button>
-                  ))}
-                </div>
-              </div>
+            {activeTab === 'draw' && (
+              <DrawingPanel
+                tool={drawingTool}
+                color={drawingColor}
+                width={drawingWidth}
+                targetName={drawingTarget?.name ?? null}
+                onToolChange={setDrawingTool}
+                onColorChange={setDrawingColor}
+                onWidthChange={setDrawingWidth}
+                onNewLayer={() => setDrawingTargetId(null)}
+              />
             )}
 
-            {activeTab === 'accessories' && (
-              <div className="flex flex-col items-center gap-6">
-                <div className="text-center">
-                  <h3 className="text-xl font-bold text-white mb-2">Accessories</h3>
-                  <p className="text-gray-400">Click on any accessory to add it to Zazu</p>
-                </div>
-                
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 max-w-4xl">
-                  {[
-                    { name: 'Gold Chain', path: '/assets/extras/goldchain.png' },
-                    { name: 'Suit', path: '/assets/extras/suit.png' },
-                    { name: 'Money Stack', path: '/assets/extras/stack-money-on-white-backround-260nw-71606644-removebg-preview.png' },
-                    { name: 'Smoke', path: '/assets/extras/smoke.png' },
-                    { name: 'MLG Scope', path: '/assets/extras/108-1089650_mlg-quickscope-png-duty-modern-warfare-2-intervention-removebg-preview.png' },
-                    { name: 'Screenshot', path: '/assets/extras/Screenshot_2025-07-14_181558-removebg-preview.png' },
-                    { name: 'Images', path: '/assets/extras/images-removebg-preview.png' },
-                    { name: 'Background', path: '/assets/extras/28de83405317503236d1625e11031acc-removebg-preview.png' }
-                  ].map((asset) => (
-                    <button
-                      key={asset.name}
-                      onClick={() => handleAssetSelect({ ...asset, category: 'accessories' })}
-                      className="group relative overflow-hidden rounded-lg border-2 border-gray-600 hover:border-blue-500 transition-all duration-200 hover:scale-105"
-                    >
-                      <img
-                        src={asset.path}
-                        alt={asset.name}
-                        className="w-full h-24 object-cover"
-                        onError={(e) => {
-                          e.currentTarget.src = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjgwIiB2aWV3Qm94PSIwIDAgMTAwIDgwIiBmaWxsPSJub25lIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPjxyZWN0IHdpZHRoPSIxMDAiIGhlaWdodD0iODAiIGZpbGw9IiMzMzMiLz48dGV4dCB4PSI1MCIgeT0iNDAiIGZvbnQtZmFtaWx5PSJBcmlhbCIgZm9udC1zaXplPSIxMiIgZmlsbD0iIzk5OSIgdGV4dC1hbmNob3I9Im1pZGRsZSI+SW1hZ2U8L3RleHQ+PC9zdmc+';
-                        }}
-                      />
-                      <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-center justify-center">
-                        <span className="text-white text-sm font-medium">{asset.name}</span>
-                      </div>
-                    </button>
-                  ))}
-                </div>
-              </div>
+            {activeTab === 'layers' && (
+              <LayersPanel
+                overlays={assetOverlays}
+                baseImageUrl={currentImageUrl}
+                onReorder={handleReorderLayers}
+                onUpdateOverlay={handleUpdateLayer}
+                selectedIds={selectedIds}
+                onSelectLayer={handleSelectLayer}
+                onDuplicateOverlay={(id) => handleDuplicateOverlays([id])}
+                onRemoveOverlay={handleRemoveOverlay}
+              />
             )}
 
-            {/* Asset Management - Show for all asset tabs */}
-            {(activeTab === 'backgrounds' || activeTab === 'eyes' || activeTab === 'hats' || activeTab === 'accessories') && assetOverlays.length > 0 && (
+            {/* Asset Management - Show on the assets tab */}
+            {activeTab === 'assets' && assetOverlays.length > 0 && (
               <div className="flex items-center gap-4 p-4 bg-gray-800/50 rounded-lg">
                 <button
-                  onClick={() => setAssetOverlays([])}
+                  onClick={handleClearOverlays}
                   className="px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-colors"
                 >
                   Clear All
@@ -901,13 +1497,47 @@ const App: React.FC = () => {
             </button>
 
             <button 
-                onClick={handleDownload}
+                onClick={handleSaveProject}
+                className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
+            >
+                Save Project
+            </button>
+            <button 
+                onClick={() => projectInputRef.current?.click()}
+                className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
+            >
+                Open Project
+            </button>
+            <button 
+                onClick={handleOpenSessions}
+                className="text-center bg-white/10 border border-white/20 text-gray-200 font-semibold py-3 px-5 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/30 active:scale-95 text-base"
+            >
+                Sessions
+            </button>
+            <input
+                ref={projectInputRef}
+                type="file"
+                className="hidden"
+                accept=".json,application/json"
+                onChange={(e) => handleOpenProject(e.target.files)}
+            />
+
+            <button 
+                onClick={() => setIsExportDialogOpen(true)}
                 className="flex-grow sm:flex-grow-0 ml-auto bg-gradient-to-br from-green-600 to-green-500 text-white font-bold py-3 px-5 rounded-md transition-all duration-300 ease-in-out shadow-lg shadow-green-500/20 hover:shadow-xl hover:shadow-green-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base"
             >
                 Download Image
             </button>
         </div>
       </div>
+      {variantTray.length > 0 && (
+        <VariantTray
+          variants={variantTray}
+          disabled={isLoading}
+          onUse={handleUseTrayVariant}
+          onRemove={(id) => setVariantTray(prev => prev.filter(variant => variant.id !== id))}
+        />
+      )}
       </main>
     </div>
   );
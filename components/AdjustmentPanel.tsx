@@ -3,16 +3,63 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  ADJUSTMENT_CONTROLS,
+  AdjustmentKey,
+  AdjustmentSettings,
+  DEFAULT_ADJUSTMENTS,
+  applyAdjustments,
+  areAdjustmentsEqual,
+} from '../services/adjustments';
+import { canvasToFile } from '../services/mask';
+import { PREVIEW_MAX_SIZE, useSourceImage, useStagePreview } from './useStagePreview';
+
+export interface LocalAdjustment {
+  /** The image the adjustment was applied to. */
+  source: File;
+  settings: AdjustmentSettings;
+}
 
 interface AdjustmentPanelProps {
   onApplyAdjustment: (prompt: string) => void;
+  /** The AI prompt, a preset's or custom text; kept by the editor so it is saved with the project. */
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
   isLoading: boolean;
+  currentImage: File;
+  /** The local adjustment that produced the current image; the sliders edit it until a new one is started. */
+  lastAdjustment: LocalAdjustment | null;
+  /** Receives a low-resolution preview of the slider values, or null when there is nothing to preview. */
+  onPreviewChange: (previewUrl: string | null) => void;
+  /** `replaceLast` is set when the result should replace `lastAdjustment` rather than stack on top of it. */
+  onCommitAdjustments: (adjusted: File, settings: AdjustmentSettings, replaceLast: boolean) => void;
 }
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, isLoading }) => {
-  const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
-  const [customPrompt, setCustomPrompt] = useState('');
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({
+  onApplyAdjustment,
+  prompt,
+  onPromptChange,
+  isLoading,
+  currentImage,
+  lastAdjustment,
+  onPreviewChange,
+  onCommitAdjustments,
+}) => {
+  const [isEditingLast, setIsEditingLast] = useState<boolean>(!!lastAdjustment);
+  const [settings, setSettings] = useState<AdjustmentSettings>(lastAdjustment?.settings ?? DEFAULT_ADJUSTMENTS);
+  const [isCommitting, setIsCommitting] = useState<boolean>(false);
+
+  const editing = isEditingLast && lastAdjustment ? lastAdjustment : null;
+  const sourceImage = useSourceImage(editing ? editing.source : currentImage);
+  const committedSettings = editing ? editing.settings : DEFAULT_ADJUSTMENTS;
+  const hasChanges = !areAdjustmentsEqual(settings, committedSettings);
+
+  const renderPreview = useMemo(
+    () => sourceImage && hasChanges ? () => applyAdjustments(sourceImage, settings, PREVIEW_MAX_SIZE) : null,
+    [sourceImage, settings, hasChanges]
+  );
+  useStagePreview(renderPreview, onPreviewChange);
 
   const presets = [
     { name: 'Blur Background', prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.' },
@@ -21,61 +68,146 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     { name: 'Studio Light', prompt: 'Add dramatic, professional studio lighting to the main subject.' },
   ];
 
-  const activePrompt = selectedPresetPrompt || customPrompt;
+  // A newly committed (or undone) adjustment becomes the one the sliders edit
+  useEffect(() => {
+    setIsEditingLast(!!lastAdjustment);
+    setSettings(lastAdjustment?.settings ?? DEFAULT_ADJUSTMENTS);
+  }, [lastAdjustment]);
+
+  const handleSliderChange = (key: AdjustmentKey, value: number) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleStartNew = () => {
+    setIsEditingLast(false);
+    setSettings(DEFAULT_ADJUSTMENTS);
+  };
 
-  const handlePresetClick = (prompt: string) => {
-    setSelectedPresetPrompt(prompt);
-    setCustomPrompt('');
+  const handleCommit = async () => {
+    if (!sourceImage) return;
+    setIsCommitting(true);
+    try {
+      const adjusted = await canvasToFile(applyAdjustments(sourceImage, settings), `adjusted-${Date.now()}.png`);
+      onCommitAdjustments(adjusted, settings, !!editing);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const selectedPresetPrompt = presets.some(preset => preset.prompt === prompt) ? prompt : null;
+  const customPrompt = selectedPresetPrompt ? '' : prompt;
+
+  const handlePresetClick = (presetPrompt: string) => {
+    onPromptChange(presetPrompt);
   };
 
   const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setCustomPrompt(e.target.value);
-    setSelectedPresetPrompt(null);
+    onPromptChange(e.target.value);
   };
 
   const handleApply = () => {
-    if (activePrompt) {
-      onApplyAdjustment(activePrompt);
+    if (prompt) {
+      onApplyAdjustment(prompt);
     }
   };
 
   return (
-    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
-      <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Professional Adjustment</h3>
-      
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-        {presets.map(preset => (
+    <div className="w-full flex flex-col gap-4">
+      <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+        <h3 className="text-lg font-semibold text-center text-gray-300">Adjust Locally</h3>
+        <p className="text-sm text-center text-gray-400 -mt-2">
+          {editing
+            ? 'Editing your last adjustment. Applying replaces it.'
+            : 'Instant, exact changes made on your device. The preview updates as you drag.'}
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+          {ADJUSTMENT_CONTROLS.map(control => (
+            <label key={control.key} className="flex flex-col gap-1 text-sm text-gray-300">
+              <span className="flex justify-between">
+                {control.label}
+                <span className="text-gray-500 tabular-nums">{settings[control.key]}</span>
+              </span>
+              <input
+                type="range"
+                min={control.min}
+                max={control.max}
+                value={settings[control.key]}
+                onChange={(e) => handleSliderChange(control.key, Number(e.target.value))}
+                onDoubleClick={() => handleSliderChange(control.key, 0)}
+                disabled={isCommitting}
+                className="w-full"
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
           <button
-            key={preset.name}
-            onClick={() => handlePresetClick(preset.prompt)}
-            disabled={isLoading}
-            className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
+            onClick={() => setSettings(DEFAULT_ADJUSTMENTS)}
+            disabled={isCommitting || areAdjustmentsEqual(settings, DEFAULT_ADJUSTMENTS)}
+            className="px-4 py-2 bg-white/10 text-gray-200 rounded-md font-semibold hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {preset.name}
+            Reset
           </button>
-        ))}
+          {editing && (
+            <button
+              onClick={handleStartNew}
+              disabled={isCommitting}
+              className="px-4 py-2 bg-white/10 text-gray-200 rounded-md font-semibold hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              New Adjustment on Top
+            </button>
+          )}
+          <button
+            onClick={handleCommit}
+            disabled={isCommitting || !sourceImage || !hasChanges}
+            className="flex-grow bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-2 px-6 rounded-md transition-all duration-300 disabled:from-blue-800 disabled:to-blue-700 disabled:cursor-not-allowed"
+          >
+            {isCommitting ? 'Applying...' : 'Apply Adjustments'}
+          </button>
+        </div>
       </div>
 
-      <input
-        type="text"
-        value={customPrompt}
-        onChange={handleCustomChange}
-        placeholder="Or describe an adjustment (e.g., 'change background to a forest')"
-        className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
-        disabled={isLoading}
-      />
-
-      {activePrompt && (
-        <div className="animate-fade-in flex flex-col gap-4 pt-2">
+      <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+        <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Professional Adjustment with AI</h3>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {presets.map(preset => (
             <button
-                onClick={handleApply}
-                className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-                disabled={isLoading || !activePrompt.trim()}
+              key={preset.name}
+              onClick={() => handlePresetClick(preset.prompt)}
+              disabled={isLoading}
+              className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
             >
-                Apply Adjustment
+              {preset.name}
             </button>
+          ))}
         </div>
-      )}
+
+        <input
+          type="text"
+          value={customPrompt}
+          onChange={handleCustomChange}
+          placeholder="Or describe an adjustment (e.g., 'change background to a forest')"
+          className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
+          disabled={isLoading}
+        />
+
+        {prompt && (
+          <div className="animate-fade-in flex flex-col gap-4 pt-2">
+              <button
+                  onClick={handleApply}
+                  className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+                  disabled={isLoading || !prompt.trim()}
+              >
+                  Apply Adjustment
+              </button>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
@@ -3,169 +3,218 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect } from 'react';
-
-interface Asset {
-  name: string;
-  path: string;
-  category: 'backgrounds' | 'eyes' | 'hats' | 'extras' | 'characters';
-}
+import React, { useState, useMemo } from 'react';
+import type { AssetCategory, AssetEntry } from '../types';
+import { ASSET_MANIFEST, searchAssets, collectTags } from '../services/assetCatalog';
+import {
+  loadFavouriteAssets,
+  toggleFavouriteAsset,
+  loadRecentAssets,
+  recordRecentAsset
+} from '../services/assetPreferences';
+import { isCustomAssetSrc, resolveAssetUrl } from '../services/customAssets';
 
 interface AssetBrowserProps {
-  onAssetSelect: (asset: Asset) => void;
-  isOpen: boolean;
-  onClose: () => void;
+  onAssetSelect: (asset: AssetEntry) => void;
+  /** The user's uploaded assets, shown alongside the built-in ones. */
+  customAssets: AssetEntry[];
+  onUploadClick: () => void;
+  onDeleteCustomAsset: (id: string) => void;
 }
 
-const AssetBrowser: React.FC<AssetBrowserProps> = ({ onAssetSelect, isOpen, onClose }) => {
-  const [assets, setAssets] = useState<Asset[]>([]);
-  const [selectedCategory, setSelectedCategory] = useState<'backgrounds' | 'eyes' | 'hats' | 'extras' | 'characters'>('backgrounds');
-  const [loading, setLoading] = useState(false);
-
-  const categories = [
-    { key: 'backgrounds', label: 'Backgrounds', icon: '🖼️' },
-    { key: 'eyes', label: 'Eyes & Glasses', icon: '👓' },
-    { key: 'hats', label: 'Hats & Headwear', icon: '🎩' },
-    { key: 'extras', label: 'Extras & Accessories', icon: '✨' },
-    { key: 'characters', label: 'Characters', icon: '👤' }
-  ] as const;
-
-  // Load assets for the selected category
-  useEffect(() => {
-    if (!isOpen) return;
-    
-    setLoading(true);
-    loadAssets(selectedCategory);
-  }, [selectedCategory, isOpen]);
-
-  const loadAssets = async (category: string) => {
-    try {
-      // In a real implementation, you would fetch from your backend or use dynamic imports
-      // For now, we'll use a static list based on the files we copied
-      const assetMap: Record<string, Asset[]> = {
-        backgrounds: [
-          { name: 'Matrix Background', path: '/assets/backgrounds/matrix-5361690_1280.webp', category: 'backgrounds' },
-          { name: 'Tropical Beach', path: '/assets/backgrounds/palm-tree-on-tropical-beach-600nw-2154569741.webp', category: 'backgrounds' },
-          { name: 'Green Background', path: '/assets/backgrounds/green.jpg', category: 'backgrounds' },
-          { name: 'Mars Landscape', path: '/assets/backgrounds/mars].jpg', category: 'backgrounds' },
-          { name: 'CS:GO Dust 2', path: '/assets/backgrounds/csgo-dust-2-map-portion.avif', category: 'backgrounds' },
-          { name: 'Stonks Chart', path: '/assets/backgrounds/stonks.webp', category: 'backgrounds' },
-          { name: 'Businessman Zazu', path: '/assets/backgrounds/businessman-zazu-v0-tl153ilewywd1.webp', category: 'backgrounds' },
-        ],
-        eyes: [
-          { name: 'Clout Goggles', path: '/assets/eyes/7-79919_cartoon-clout-goggles-transparent-hd-png-download-removebg-preview.png', category: 'eyes' },
-          { name: '8-bit Glasses', path: '/assets/eyes/8bit-glasses.png', category: 'eyes' },
-          { name: 'Aviator Sunglasses', path: '/assets/eyes/png-transparent-white-eyewear-shutter-shades-aviator-sunglasses-shutter-s-text-monochrome-glasses-removebg-preview.png', category: 'eyes' },
-          { name: 'Sport Glasses', path: '/assets/eyes/pngtree-sport-glasses-mockup-mock-up-picture-image_7736765-removebg-preview.png', category: 'eyes' },
-          { name: 'Sunglasses', path: '/assets/eyes/sunglasses-clipart-design-illustration-free-png-removebg-preview (1).png', category: 'eyes' },
-        ],
-        hats: [
-          { name: 'Army Helmet', path: '/assets/hats/army-helmet.png', category: 'hats' },
-          { name: 'Beanie', path: '/assets/hats/beanie.png', category: 'hats' },
-          { name: 'Cowboy Hat', path: '/assets/hats/cowboy-hat.png', category: 'hats' },
-          { name: 'MAGA Hat', path: '/assets/hats/maga-hat.png', category: 'hats' },
-          { name: 'Viking Helmet', path: '/assets/hats/viking-helmets-with-transparent-cutout-free-png-removebg-preview.png', category: 'hats' },
-          { name: 'Yankees Hat', path: '/assets/hats/yankees-hat.png', category: 'hats' },
-        ],
-        extras: [
-          { name: 'Gold Chain', path: '/assets/extras/goldchain.png', category: 'extras' },
-          { name: 'Smoke Effect', path: '/assets/extras/smoke.png', category: 'extras' },
-          { name: 'Money Stack', path: '/assets/extras/stack-money-on-white-backround-260nw-71606644-removebg-preview.png', category: 'extras' },
-          { name: 'Suit', path: '/assets/extras/suit.png', category: 'extras' },
-        ],
-        characters: [
-          { name: 'Zazu', path: '/assets/characters/zazu.png', category: 'characters' },
-          { name: 'Rigby', path: '/assets/characters/rigby.png', category: 'characters' },
-          { name: 'Crying Face', path: '/assets/characters/crying.png', category: 'characters' },
-        ]
-      };
-
-      setAssets(assetMap[category] || []);
-    } catch (error) {
-      console.error('Error loading assets:', error);
-      setAssets([]);
-    } finally {
-      setLoading(false);
+type BrowserView = 'all' | 'favourites' | 'recent' | 'uploads' | AssetCategory;
+
+const VIEWS: ReadonlyArray<{ key: BrowserView; label: string; icon: string }> = [
+  { key: 'all', label: 'All', icon: '🗂️' },
+  { key: 'favourites', label: 'Favourites', icon: '⭐' },
+  { key: 'recent', label: 'Recent', icon: '🕘' },
+  { key: 'uploads', label: 'My Uploads', icon: '📤' },
+  { key: 'backgrounds', label: 'Backgrounds', icon: '🖼️' },
+  { key: 'eyes', label: 'Eyes & Glasses', icon: '👓' },
+  { key: 'hats', label: 'Hats & Headwear', icon: '🎩' },
+  { key: 'accessories', label: 'Extras & Accessories', icon: '✨' },
+  { key: 'characters', label: 'Characters', icon: '👤' }
+];
+
+// How many tag chips are shown before "more" is needed
+const VISIBLE_TAG_COUNT = 12;
+
+const AssetBrowser: React.FC<AssetBrowserProps> = ({ onAssetSelect, customAssets, onUploadClick, onDeleteCustomAsset }) => {
+  const [view, setView] = useState<BrowserView>('all');
+  const [query, setQuery] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [showAllTags, setShowAllTags] = useState(false);
+  const [favourites, setFavourites] = useState<string[]>(loadFavouriteAssets);
+  const [recents, setRecents] = useState<string[]>(loadRecentAssets);
+
+  const allAssets = useMemo(() => [...customAssets, ...ASSET_MANIFEST], [customAssets]);
+
+  const viewAssets = useMemo(() => {
+    if (view === 'all') return allAssets;
+    if (view === 'uploads') return customAssets;
+    if (view === 'favourites') return allAssets.filter(asset => favourites.includes(asset.id));
+    if (view === 'recent') {
+      // Keep most-recent-first order; ids of assets that no longer exist are dropped
+      return recents
+        .map(id => allAssets.find(asset => asset.id === id))
+        .filter((asset): asset is AssetEntry => !!asset);
     }
+    return allAssets.filter(asset => asset.category === view);
+  }, [view, allAssets, customAssets, favourites, recents]);
+
+  const tags = useMemo(() => collectTags(viewAssets), [viewAssets]);
+  const assets = useMemo(() => searchAssets(viewAssets, query, selectedTags), [viewAssets, query, selectedTags]);
+
+  const handleViewChange = (next: BrowserView) => {
+    setView(next);
+    setSelectedTags([]);
+    setShowAllTags(false);
   };
 
-  const handleAssetClick = (asset: Asset) => {
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(selected => selected !== tag) : [...prev, tag]);
+  };
+
+  const handleAssetClick = (asset: AssetEntry) => {
+    setRecents(recordRecentAsset(asset.id));
     onAssetSelect(asset);
   };
 
-  if (!isOpen) return null;
+  const handleFavouriteClick = (e: React.MouseEvent, asset: AssetEntry) => {
+    e.stopPropagation();
+    setFavourites(toggleFavouriteAsset(asset.id));
+  };
+
+  const visibleTags = showAllTags ? tags : tags.slice(0, VISIBLE_TAG_COUNT);
+  // Keep selected tags visible even when they fall outside the collapsed list
+  const tagChips = [...visibleTags, ...selectedTags.filter(tag => !visibleTags.includes(tag))];
 
   return (
-    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-      <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-4xl max-h-[80vh] flex flex-col">
-        {/* Header */}
-        <div className="flex items-center justify-between p-6 border-b border-gray-700">
-          <h2 className="text-2xl font-bold text-white">Asset Browser</h2>
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg flex flex-col animate-fade-in backdrop-blur-sm">
+      {/* Category Tabs */}
+      <div className="flex border-b border-gray-700 overflow-x-auto">
+        {VIEWS.map((option) => (
           <button
-            onClick={onClose}
-            className="text-gray-400 hover:text-white transition-colors text-2xl"
+            key={option.key}
+            onClick={() => handleViewChange(option.key)}
+            className={`flex items-center gap-2 px-4 py-3 whitespace-nowrap transition-colors ${
+              view === option.key
+                ? 'bg-blue-600 text-white border-b-2 border-blue-400'
+                : 'text-gray-400 hover:text-white hover:bg-gray-800'
+            }`}
           >
-            ×
+            <span>{option.icon}</span>
+            <span>{option.label}</span>
           </button>
-        </div>
+        ))}
+      </div>
 
-        {/* Category Tabs */}
-        <div className="flex border-b border-gray-700 overflow-x-auto">
-          {categories.map((category) => (
-            <button
-              key={category.key}
-              onClick={() => setSelectedCategory(category.key)}
-              className={`flex items-center gap-2 px-4 py-3 whitespace-nowrap transition-colors ${
-                selectedCategory === category.key
-                  ? 'bg-blue-600 text-white border-b-2 border-blue-400'
-                  : 'text-gray-400 hover:text-white hover:bg-gray-800'
-              }`}
-            >
-              <span>{category.icon}</span>
-              <span>{category.label}</span>
-            </button>
-          ))}
+      {/* Search and tag filters */}
+      <div className="p-4 flex flex-col gap-3 border-b border-gray-700">
+        <div className="flex gap-2">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search assets by name or tag..."
+            className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          <button
+            onClick={onUploadClick}
+            className="px-4 bg-white/10 border border-white/20 text-gray-200 font-semibold rounded-lg hover:bg-white/20 transition-colors whitespace-nowrap"
+          >
+            Upload
+          </button>
         </div>
+        {tagChips.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {tagChips.map(tag => (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${
+                  selectedTags.includes(tag) ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+            {tags.length > VISIBLE_TAG_COUNT && (
+              <button
+                onClick={() => setShowAllTags(prev => !prev)}
+                className="px-3 py-1 text-sm text-gray-400 hover:text-white"
+              >
+                {showAllTags ? 'Fewer tags' : `+${tags.length - VISIBLE_TAG_COUNT} more`}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
 
-        {/* Assets Grid */}
-        <div className="flex-1 overflow-y-auto p-6">
-          {loading ? (
-            <div className="flex items-center justify-center h-32">
-              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
-            </div>
-          ) : (
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-              {assets.map((asset, index) => (
-                <div
-                  key={index}
-                  onClick={() => handleAssetClick(asset)}
-                  className="group cursor-pointer bg-gray-800 rounded-lg p-3 hover:bg-gray-700 transition-colors border border-gray-700 hover:border-blue-500"
+      {/* Assets Grid */}
+      <div className="max-h-[60vh] overflow-y-auto p-4">
+        {assets.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">
+            {view === 'favourites' && favourites.length === 0 ? 'Star an asset to add it to your favourites.'
+              : view === 'recent' && recents.length === 0 ? 'Assets you add will show up here.'
+              : view === 'uploads' && customAssets.length === 0 ? 'Upload your own PNG or WebP stickers and backgrounds.'
+              : 'No assets match your search.'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+            {assets.map((asset) => (
+              <div
+                key={asset.id}
+                onClick={() => handleAssetClick(asset)}
+                className="group relative cursor-pointer bg-gray-800 rounded-lg p-3 hover:bg-gray-700 transition-colors border border-gray-700 hover:border-blue-500"
+              >
+                <button
+                  onClick={(e) => handleFavouriteClick(e, asset)}
+                  className={`absolute top-1 right-1 z-10 w-7 h-7 rounded-full bg-black/50 text-sm transition-opacity ${
+                    favourites.includes(asset.id) ? 'text-yellow-400' : 'text-gray-300 opacity-0 group-hover:opacity-100'
+                  }`}
+                  aria-label={favourites.includes(asset.id) ? `Remove ${asset.name} from favourites` : `Add ${asset.name} to favourites`}
                 >
-                  <div className="aspect-square bg-gray-700 rounded-md mb-2 flex items-center justify-center overflow-hidden">
-                    <img
-                      src={asset.path}
-                      alt={asset.name}
-                      className="w-full h-full object-contain group-hover:scale-105 transition-transform"
-                      onError={(e) => {
-                        const target = e.target as HTMLImageElement;
-                        target.style.display = 'none';
-                        target.parentElement!.innerHTML = '<div class="text-gray-400 text-sm">Image not found</div>';
-                      }}
-                    />
-                  </div>
-                  <p className="text-sm text-gray-300 text-center truncate">{asset.name}</p>
+                  {favourites.includes(asset.id) ? '★' : '☆'}
+                </button>
+                {isCustomAssetSrc(asset.path) && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onDeleteCustomAsset(asset.id);
+                    }}
+                    className="absolute top-1 left-1 z-10 w-7 h-7 rounded-full bg-black/50 text-sm text-gray-300 opacity-0 group-hover:opacity-100 hover:bg-red-600 transition-opacity"
+                    aria-label={`Delete ${asset.name} from your library`}
+                  >
+                    ×
+                  </button>
+                )}
+                <div className="aspect-square bg-gray-700 rounded-md mb-2 flex items-center justify-center overflow-hidden">
+                  <img
+                    src={resolveAssetUrl(asset.path)}
+                    alt={asset.name}
+                    loading="lazy"
+                    decoding="async"
+                    className={`w-full h-full ${asset.category === 'backgrounds' ? 'object-cover' : 'object-contain'} group-hover:scale-105 transition-transform`}
+                    onError={(e) => {
+                      const target = e.target as HTMLImageElement;
+                      target.style.display = 'none';
+                      target.parentElement!.innerHTML = '<div class="text-gray-400 text-sm">Image not found</div>';
+                    }}
+                  />
                 </div>
-              ))}
-            </div>
-          )}
-        </div>
+                <p className="text-sm text-gray-300 text-center truncate">{asset.name}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
 
-        {/* Footer */}
-        <div className="p-4 border-t border-gray-700 bg-gray-800/50">
-          <p className="text-sm text-gray-400 text-center">
-            Click on any asset to add it to your image
-          </p>
-        </div>
+      {/* Footer */}
+      <div className="p-4 border-t border-gray-700 bg-gray-800/50">
+        <p className="text-sm text-gray-400 text-center">
+          Click on any asset to add it to Zazu
+        </p>
       </div>
     </div>
   );
@@ -4,152 +4,357 @@
 */
 
 import React, { useState, useRef, useCallback } from 'react';
-
-interface AssetOverlay {
-  id: string;
-  src: string;
-  name: string;
-  category: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  rotation: number;
-  opacity: number;
-  zIndex: number;
-}
+import type { Overlay } from '../types';
+import type { OverlayUpdate } from '../services/editorHistory';
+import {
+  resizeBox,
+  rotationTowards,
+  pinchBox,
+  boundingRect,
+  rectsIntersect,
+  HANDLE_DIRECTIONS,
+  Point,
+  TransformBox,
+  TransformHandle
+} from '../services/transformGeometry';
 
 interface AssetOverlayProps {
-  overlays: AssetOverlay[];
-  onUpdateOverlay: (id: string, updates: Partial<AssetOverlay>) => void;
+  overlays: Overlay[];
+  selectedIds: string[];
+  onSelectionChange: (ids: string[]) => void;
+  onUpdateOverlay: (id: string, updates: Partial<Overlay>, mergeKey?: string) => void;
+  onUpdateOverlays: (updates: OverlayUpdate[], mergeKey?: string) => void;
   onRemoveOverlay: (id: string) => void;
-  onAddOverlay: (overlay: Omit<AssetOverlay, 'id'>) => void;
+  onAddOverlay: (overlay: Overlay) => void;
   isEditing: boolean;
   onSetEditing: (editing: boolean) => void;
 }
 
+// Identifies a gesture so all of its updates form a single undo entry
+type GestureKey = { key: string };
+
+type Gesture =
+  // Moves every selected overlay; `overlayId` is the one under the pointer
+  | GestureKey & { action: 'drag'; pointerId: number; start: Point; overlayId: string; startBoxes: Array<{ id: string; box: TransformBox }> }
+  | GestureKey & { action: 'resize' | 'rotate'; pointerId: number; start: Point; overlayId: string; handle?: TransformHandle; startBox: TransformBox }
+  // Two touches on the same overlay: pinch to scale, twist to rotate
+  | GestureKey & { action: 'pinch'; pointerIds: [number, number]; starts: [Point, Point]; overlayId: string; startBox: TransformBox }
+  // Rubber-band selection started on an empty part of the stage
+  | { action: 'marquee'; pointerId: number; start: Point; current: Point; additive: boolean };
+
+const HANDLE_CURSORS: Record<TransformHandle, string> = {
+  nw: 'nwse-resize',
+  se: 'nwse-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+};
+
+const HANDLES = Object.keys(HANDLE_DIRECTIONS) as TransformHandle[];
+
+// A marquee smaller than this is treated as a click on the empty stage
+const MIN_MARQUEE_SIZE = 3;
+
+const marqueeRect = (start: Point, current: Point) => ({
+  x: Math.min(start.x, current.x),
+  y: Math.min(start.y, current.y),
+  width: Math.abs(current.x - start.x),
+  height: Math.abs(current.y - start.y)
+});
+
 const AssetOverlay: React.FC<AssetOverlayProps> = ({
   overlays,
+  selectedIds,
+  onSelectionChange,
   onUpdateOverlay,
+  onUpdateOverlays,
   onRemoveOverlay,
   onAddOverlay,
   isEditing,
   onSetEditing
 }) => {
-  const [dragging, setDragging] = useState<string | null>(null);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
-  const [resizing, setResizing] = useState<string | null>(null);
+  const [gesture, setGesture] = useState<Gesture | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Latest stage position of every pointer currently pressed on the container
+  const pointersRef = useRef<Map<number, Point>>(new Map());
+
+  const toStagePoint = (e: React.PointerEvent): Point | null => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : null;
+  };
+
+  const boxOf = (overlay: Overlay): TransformBox => ({
+    x: overlay.x,
+    y: overlay.y,
+    width: overlay.width,
+    height: overlay.height,
+    rotation: overlay.rotation
+  });
+
+  // Capturing on the container keeps the gesture alive when the pointer leaves the box or the stage
+  const trackPointer = (e: React.PointerEvent): Point | null => {
+    const point = toStagePoint(e);
+    if (!point) return null;
+    pointersRef.current.set(e.pointerId, point);
+    containerRef.current?.setPointerCapture(e.pointerId);
+    return point;
+  };
+
+  // A second touch during a drag turns it into a pinch on the overlay under the first finger
+  const startPinch = (current: Gesture, e: React.PointerEvent, point: Point): Gesture | null => {
+    if (current.action === 'pinch' || current.action === 'marquee') return null;
+    const overlay = overlays.find(o => o.id === current.overlayId);
+    const firstPoint = pointersRef.current.get(current.pointerId);
+    if (!overlay || !firstPoint) return null;
+    return {
+      action: 'pinch',
+      overlayId: overlay.id,
+      key: current.key,
+      pointerIds: [current.pointerId, e.pointerId],
+      starts: [firstPoint, point],
+      startBox: boxOf(overlay),
+    };
+  };
 
-  const handleMouseDown = useCallback((e: React.MouseEvent, overlayId: string, action: 'drag' | 'resize') => {
+  const handleOverlayPointerDown = (e: React.PointerEvent, overlay: Overlay, action: 'drag' | 'resize' | 'rotate', handle?: TransformHandle) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
     e.preventDefault();
     e.stopPropagation();
-    
-    if (action === 'drag') {
-      setDragging(overlayId);
-    } else {
-      setResizing(overlayId);
+
+    const point = trackPointer(e);
+    if (!point) return;
+
+    if (gesture) {
+      const pinch = e.pointerType === 'touch' ? startPinch(gesture, e, point) : null;
+      if (pinch) setGesture(pinch);
+      return;
     }
-    
-    const rect = containerRef.current?.getBoundingClientRect();
-    if (rect) {
-      setDragStart({
-        x: e.clientX - rect.left,
-        y: e.clientY - rect.top
-      });
+
+    const key = `${action}-${overlay.id}-${Date.now()}`;
+    if (action !== 'drag') {
+      setGesture({ action, overlayId: overlay.id, handle, pointerId: e.pointerId, key, start: point, startBox: boxOf(overlay) });
+      return;
     }
-  }, []);
 
-  const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (!dragging && !resizing) return;
-    
+    // Shift-click toggles an overlay in the selection without moving anything
+    if (e.shiftKey) {
+      onSelectionChange(selectedIds.includes(overlay.id)
+        ? selectedIds.filter(id => id !== overlay.id)
+        : [...selectedIds, overlay.id]);
+      return;
+    }
+
+    // Grabbing an unselected overlay selects just that one; grabbing a selected one moves the whole selection
+    const selection = selectedIds.includes(overlay.id) ? selectedIds : [overlay.id];
+    if (selection !== selectedIds) onSelectionChange(selection);
+    setGesture({
+      action: 'drag',
+      overlayId: overlay.id,
+      pointerId: e.pointerId,
+      key,
+      start: point,
+      startBoxes: overlays
+        .filter(o => selection.includes(o.id) && !o.locked)
+        .map(o => ({ id: o.id, box: boxOf(o) })),
+    });
+  };
+
+  // Pointers landing on the empty stage start a marquee, or join a running gesture as a second touch
+  const handleContainerPointerDown = (e: React.PointerEvent) => {
+    if (!isEditing) return;
+    // The overlays' own buttons (remove, flip, opacity) handle their clicks themselves
+    if ((e.target as HTMLElement).closest('button')) return;
+    if (gesture) {
+      if (e.pointerType !== 'touch') return;
+      const point = trackPointer(e);
+      const pinch = point ? startPinch(gesture, e, point) : null;
+      if (pinch) setGesture(pinch);
+      return;
+    }
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+
+    const point = trackPointer(e);
+    if (!point) return;
+    setGesture({ action: 'marquee', pointerId: e.pointerId, start: point, current: point, additive: e.shiftKey });
+  };
+
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    if (!gesture || !pointersRef.current.has(e.pointerId)) return;
+
     const rect = containerRef.current?.getBoundingClientRect();
     if (!rect) return;
-    
-    const currentX = e.clientX - rect.left;
-    const currentY = e.clientY - rect.top;
-    
-    const deltaX = currentX - dragStart.x;
-    const deltaY = currentY - dragStart.y;
-    
-    const overlay = overlays.find(o => o.id === (dragging || resizing));
-    if (!overlay) return;
-    
-    if (dragging) {
-      onUpdateOverlay(overlay.id, {
-        x: Math.max(0, Math.min(rect.width - overlay.width, overlay.x + deltaX)),
-        y: Math.max(0, Math.min(rect.height - overlay.height, overlay.y + deltaY))
-      });
-    } else if (resizing) {
-      const newWidth = Math.max(20, overlay.width + deltaX);
-      const newHeight = Math.max(20, overlay.height + deltaY);
-      onUpdateOverlay(overlay.id, {
-        width: newWidth,
-        height: newHeight
-      });
+
+    const current = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    pointersRef.current.set(e.pointerId, current);
+
+    if (gesture.action === 'pinch') {
+      const first = pointersRef.current.get(gesture.pointerIds[0]);
+      const second = pointersRef.current.get(gesture.pointerIds[1]);
+      if (first && second) {
+        onUpdateOverlay(gesture.overlayId, pinchBox(gesture.startBox, gesture.starts, [first, second]), gesture.key);
+      }
+      return;
     }
-    
-    setDragStart({ x: currentX, y: currentY });
-  }, [dragging, resizing, dragStart, overlays, onUpdateOverlay]);
+    if (e.pointerId !== gesture.pointerId) return;
 
-  const handleMouseUp = useCallback(() => {
-    setDragging(null);
-    setResizing(null);
-  }, []);
+    if (gesture.action === 'marquee') {
+      setGesture({ ...gesture, current });
+      return;
+    }
+
+    const deltaX = current.x - gesture.start.x;
+    const deltaY = current.y - gesture.start.y;
+
+    if (gesture.action === 'drag') {
+      if (gesture.startBoxes.length === 0) return;
+      // Clamp the move so the selection as a whole stays on the stage
+      const left = Math.min(...gesture.startBoxes.map(({ box }) => box.x));
+      const top = Math.min(...gesture.startBoxes.map(({ box }) => box.y));
+      const right = Math.max(...gesture.startBoxes.map(({ box }) => box.x + box.width));
+      const bottom = Math.max(...gesture.startBoxes.map(({ box }) => box.y + box.height));
+      const clampedX = Math.max(-left, Math.min(rect.width - right, deltaX));
+      const clampedY = Math.max(-top, Math.min(rect.height - bottom, deltaY));
+      onUpdateOverlays(gesture.startBoxes.map(({ id, box }) => ({
+        id,
+        updates: { x: box.x + clampedX, y: box.y + clampedY }
+      })), gesture.key);
+    } else if (gesture.action === 'resize' && gesture.handle) {
+      onUpdateOverlay(gesture.overlayId, resizeBox(gesture.startBox, gesture.handle, deltaX, deltaY, e.shiftKey), gesture.key);
+    } else if (gesture.action === 'rotate') {
+      // Snaps to 15° steps unless Alt is held
+      onUpdateOverlay(gesture.overlayId, {
+        rotation: rotationTowards(gesture.startBox, current.x, current.y, !e.altKey)
+      }, gesture.key);
+    }
+  }, [gesture, onUpdateOverlay, onUpdateOverlays]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    if (!gesture) return;
+
+    if (gesture.action === 'pinch') {
+      // Lifting one finger of a pinch carries on as a drag with the other one
+      const remainingId = gesture.pointerIds.find(id => id !== e.pointerId);
+      const remaining = remainingId !== undefined ? pointersRef.current.get(remainingId) : undefined;
+      const overlay = overlays.find(o => o.id === gesture.overlayId);
+      if (remainingId !== undefined && remaining && overlay && gesture.pointerIds.includes(e.pointerId)) {
+        setGesture({
+          action: 'drag',
+          overlayId: overlay.id,
+          pointerId: remainingId,
+          key: gesture.key,
+          start: remaining,
+          startBoxes: [{ id: overlay.id, box: boxOf(overlay) }],
+        });
+        return;
+      }
+    } else if (e.pointerId !== gesture.pointerId) {
+      return;
+    } else if (gesture.action === 'marquee') {
+      const area = marqueeRect(gesture.start, gesture.current);
+      const isClick = area.width < MIN_MARQUEE_SIZE && area.height < MIN_MARQUEE_SIZE;
+      const hits = isClick ? [] : overlays
+        .filter(overlay => !overlay.locked && rectsIntersect(area, boundingRect(boxOf(overlay))))
+        .map(overlay => overlay.id);
+      onSelectionChange(gesture.additive ? Array.from(new Set([...selectedIds, ...hits])) : hits);
+    }
+    setGesture(null);
+  }, [gesture, overlays, selectedIds, onSelectionChange]);
+
+  const singleSelectedId = selectedIds.length === 1 ? selectedIds[0] : null;
+  const marquee = gesture?.action === 'marquee' ? marqueeRect(gesture.start, gesture.current) : null;
 
   return (
     <div
       ref={containerRef}
-      className="relative w-full h-full"
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      onMouseLeave={handleMouseUp}
+      className={`relative w-full h-full ${isEditing ? 'touch-none' : ''}`}
+      onPointerDown={handleContainerPointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
     >
       {overlays.map((overlay) => (
         <div
           key={overlay.id}
-          className={`absolute ${isEditing ? 'cursor-move' : ''} ${isEditing ? 'border-2 border-blue-500' : ''}`}
+          className={`absolute ${isEditing && !overlay.locked ? 'cursor-move' : 'pointer-events-none'} ${
+            selectedIds.includes(overlay.id) ? 'border-2 border-blue-500' : isEditing && !overlay.locked ? 'hover:outline hover:outline-1 hover:outline-blue-400/70' : ''
+          }`}
           style={{
             left: overlay.x,
             top: overlay.y,
             width: overlay.width,
             height: overlay.height,
             zIndex: overlay.zIndex,
-            opacity: overlay.opacity,
             transform: `rotate(${overlay.rotation}deg)`
           }}
         >
-          <img
-            src={overlay.src}
-            alt={overlay.name}
-            className="w-full h-full object-contain"
-            draggable={false}
-          />
-          
-          {isEditing && (
+          {/* The asset itself is drawn by the composition canvas; this box only handles interaction */}
+          {isEditing && !overlay.locked && (
             <>
-              {/* Drag handle */}
+              {/* Drag handle; also selects the overlay */}
               <div
                 className="absolute inset-0 cursor-move"
-                onMouseDown={(e) => handleMouseDown(e, overlay.id, 'drag')}
+                onPointerDown={(e) => handleOverlayPointerDown(e, overlay, 'drag')}
               />
-              
-              {/* Resize handle */}
+            </>
+          )}
+
+          {/* Transform gizmo, shown when this is the only selected overlay */}
+          {isEditing && !overlay.locked && overlay.id === singleSelectedId && (
+            <>
+
+              {/* Resize handles; hold Shift to keep the aspect ratio */}
+              {HANDLES.map(handle => {
+                const direction = HANDLE_DIRECTIONS[handle];
+                return (
+                  <div
+                    key={handle}
+                    className="absolute w-3 h-3 bg-white border-2 border-blue-500 -translate-x-1/2 -translate-y-1/2 before:absolute before:-inset-3 before:content-['']"
+                    style={{
+                      left: `${(direction.x + 1) * 50}%`,
+                      top: `${(direction.y + 1) * 50}%`,
+                      cursor: HANDLE_CURSORS[handle]
+                    }}
+                    onPointerDown={(e) => handleOverlayPointerDown(e, overlay, 'resize', handle)}
+                  />
+                );
+              })}
+
+              {/* Rotation handle */}
+              <div className="absolute left-1/2 -top-6 w-px h-6 bg-blue-500 pointer-events-none" />
               <div
-                className="absolute bottom-0 right-0 w-4 h-4 bg-blue-500 cursor-se-resize"
-                onMouseDown={(e) => handleMouseDown(e, overlay.id, 'resize')}
+                className="absolute left-1/2 -top-8 w-4 h-4 bg-white border-2 border-blue-500 rounded-full -translate-x-1/2 cursor-grab before:absolute before:-inset-3 before:content-['']"
+                onPointerDown={(e) => handleOverlayPointerDown(e, overlay, 'rotate')}
+                title="Drag to rotate (hold Alt for free rotation)"
               />
-              
+
               {/* Remove button */}
               <button
-                className="absolute -top-2 -right-2 w-6 h-6 bg-red-500 text-white rounded-full text-xs hover:bg-red-600"
+                className="absolute -top-2 -right-8 w-6 h-6 bg-red-500 text-white rounded-full text-xs hover:bg-red-600"
                 onClick={() => onRemoveOverlay(overlay.id)}
               >
                 ×
               </button>
               
               {/* Controls */}
-              <div className="absolute -bottom-8 left-0 right-0 flex justify-center gap-2">
+              <div className="absolute -bottom-10 left-1/2 -translate-x-1/2 flex justify-center gap-2 whitespace-nowrap">
+                <button
+                  className="px-2 py-1 bg-gray-700 text-white text-xs rounded"
+                  onClick={() => onUpdateOverlay(overlay.id, { flipX: !overlay.flipX })}
+                  aria-label="Flip horizontally"
+                >
+                  ⇋
+                </button>
+                <button
+                  className="px-2 py-1 bg-gray-700 text-white text-xs rounded"
+                  onClick={() => onUpdateOverlay(overlay.id, { flipY: !overlay.flipY })}
+                  aria-label="Flip vertically"
+                >
+                  ⇵
+                </button>
                 <button
                   className="px-2 py-1 bg-gray-700 text-white text-xs rounded"
                   onClick={() => onUpdateOverlay(overlay.id, { opacity: Math.max(0.1, overlay.opacity - 0.1) })}
@@ -170,6 +375,13 @@ const AssetOverlay: React.FC<AssetOverlayProps> = ({
           )}
         </div>
       ))}
+
+      {marquee && (
+        <div
+          className="absolute border border-blue-400 bg-blue-400/10 pointer-events-none"
+          style={{ left: marquee.x, top: marquee.y, width: marquee.width, height: marquee.height, zIndex: 10000 }}
+        />
+      )}
     </div>
   );
 };
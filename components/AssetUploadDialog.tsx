@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import type { AssetCategory } from '../types';
+import { ASSET_CATEGORY_LABELS } from '../services/assetDefaults';
+import { ACCEPTED_CUSTOM_ASSET_TYPES, CustomAssetDetails } from '../services/customAssets';
+
+interface AssetUploadDialogProps {
+  onUpload: (file: File, details: CustomAssetDetails) => Promise<void>;
+  onClose: () => void;
+}
+
+const AssetUploadDialog: React.FC<AssetUploadDialogProps> = ({ onUpload, onClose }) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<AssetCategory>('accessories');
+  const [tags, setTags] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleFileChange = (files: FileList | null) => {
+    const selected = files?.[0] ?? null;
+    setFile(selected);
+    setError(null);
+    if (selected && !name) setName(selected.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onUpload(file, { name, category, tags: tags.split(',') });
+      onClose();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to upload the asset. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-lg flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <h2 className="text-2xl font-bold text-white">Upload Asset</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-4">
+          <label className="flex items-center gap-4 cursor-pointer">
+            <div className="w-20 h-20 flex-shrink-0 bg-gray-800 border border-dashed border-gray-600 rounded-lg flex items-center justify-center overflow-hidden">
+              {previewUrl
+                ? <img src={previewUrl} alt="Preview" className="w-full h-full object-contain" />
+                : <span className="text-gray-500 text-xs text-center">PNG or WebP</span>}
+            </div>
+            <span className="text-sm text-gray-300">{file ? file.name : 'Choose an image...'}</span>
+            <input
+              type="file"
+              className="hidden"
+              accept={ACCEPTED_CUSTOM_ASSET_TYPES.join(',')}
+              onChange={(e) => handleFileChange(e.target.files)}
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm text-gray-300">
+            Name
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm text-gray-300">
+            Category
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as AssetCategory)}
+              className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              {(Object.keys(ASSET_CATEGORY_LABELS) as AssetCategory[]).map(key => (
+                <option key={key} value={key}>{ASSET_CATEGORY_LABELS[key]}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col gap-1 text-sm text-gray-300">
+            Tags
+            <input
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g. meme, gold, hat"
+              className="bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+          </label>
+
+          {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 bg-gray-800/50 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-5 py-2 bg-white/10 text-gray-200 rounded-lg font-semibold hover:bg-white/20 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!file || isSaving}
+            className="px-5 py-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold rounded-lg transition-all duration-300 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Uploading...' : 'Add to Library'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AssetUploadDialog;
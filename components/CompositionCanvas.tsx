@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useEffect } from 'react';
+import { renderComposition, CompositionLayer, FailedAsset, STAGE_SIZE } from '../services/compositionRenderer';
+
+interface CompositionCanvasProps {
+  layers: CompositionLayer[];
+  onFailedAssetsChange?: (failed: FailedAsset[]) => void;
+  className?: string;
+}
+
+// Live preview of the composition, drawn by the same renderer that produces exports
+const CompositionCanvas: React.FC<CompositionCanvasProps> = ({ layers, onFailedAssetsChange, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renderIdRef = useRef<number>(0);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    const size = Math.round(STAGE_SIZE * pixelRatio);
+
+    // Render into an offscreen canvas so a slow load never shows a half-drawn frame,
+    // and drop results of renders that were superseded while loading
+    const renderId = ++renderIdRef.current;
+    const offscreen = document.createElement('canvas');
+    offscreen.width = size;
+    offscreen.height = size;
+    const offscreenCtx = offscreen.getContext('2d');
+    if (!offscreenCtx) return;
+
+    renderComposition(offscreenCtx, layers, { scale: size / STAGE_SIZE, background: null }).then(({ failed }) => {
+      if (renderId !== renderIdRef.current) return;
+      if (canvas.width !== size) {
+        canvas.width = size;
+        canvas.height = size;
+      }
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.clearRect(0, 0, size, size);
+      ctx.drawImage(offscreen, 0, 0);
+      onFailedAssetsChange?.(failed);
+    });
+  }, [layers, onFailedAssetsChange]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={className}
+      style={{ width: `${STAGE_SIZE}px`, height: `${STAGE_SIZE}px` }}
+    />
+  );
+};
+
+export default CompositionCanvas;
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import ReactCrop, { PercentCrop, centerCrop, makeAspectCrop } from 'react-image-crop';
+import type { Rect } from '../services/compositionRenderer';
+import { CROP_ASPECT_PRESETS, MAX_OUTPUT_SIZE } from '../services/crop';
+
+interface CropPanelProps {
+  imageUrl: string;
+  isLoading: boolean;
+  /** `crop` is in image pixels; `outputSize` is set when the result should also be resized. */
+  onApplyCrop: (crop: Rect, outputSize?: { width: number; height: number }) => void;
+}
+
+const FULL_CROP: PercentCrop = { unit: '%', x: 0, y: 0, width: 100, height: 100 };
+
+// The largest centred crop with the given aspect ratio
+const centredAspectCrop = (aspect: number, width: number, height: number): PercentCrop =>
+  centerCrop(makeAspectCrop({ unit: '%', width: 100 }, aspect, width, height), width, height);
+
+const CropPanel: React.FC<CropPanelProps> = ({ imageUrl, isLoading, onApplyCrop }) => {
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [aspect, setAspect] = useState<number | undefined>(undefined);
+  const [crop, setCrop] = useState<PercentCrop>(FULL_CROP);
+  const [resizeWidth, setResizeWidth] = useState<string>('');
+
+  // The selection in image pixels
+  const pixelCrop: Rect | null = naturalSize && {
+    x: Math.round(crop.x / 100 * naturalSize.width),
+    y: Math.round(crop.y / 100 * naturalSize.height),
+    width: Math.round(crop.width / 100 * naturalSize.width),
+    height: Math.round(crop.height / 100 * naturalSize.height),
+  };
+  const hasSelection = !!pixelCrop && pixelCrop.width > 0 && pixelCrop.height > 0;
+  const targetWidth = Math.min(MAX_OUTPUT_SIZE, Math.round(Number(resizeWidth)));
+  const outputSize = hasSelection && targetWidth > 0
+    ? { width: targetWidth, height: Math.max(1, Math.round(targetWidth * pixelCrop.height / pixelCrop.width)) }
+    : undefined;
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    setNaturalSize({ width: naturalWidth, height: naturalHeight });
+    setCrop(aspect ? centredAspectCrop(aspect, naturalWidth, naturalHeight) : FULL_CROP);
+  };
+
+  const handleAspectChange = (nextAspect: number | undefined) => {
+    setAspect(nextAspect);
+    if (nextAspect && naturalSize) {
+      setCrop(centredAspectCrop(nextAspect, naturalSize.width, naturalSize.height));
+    }
+  };
+
+  const handleApply = () => {
+    if (pixelCrop && hasSelection) {
+      onApplyCrop(pixelCrop, outputSize);
+    }
+  };
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Crop Image</h3>
+      <p className="text-sm text-center text-gray-400 -mt-2">Drag on the image to choose the area to keep. Assets stay where they are on the picture.</p>
+
+      <div className="grid grid-cols-5 gap-2">
+        {CROP_ASPECT_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => handleAspectChange(preset.aspect)}
+            disabled={isLoading}
+            className={`py-2 rounded-md font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${aspect === preset.aspect ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-center bg-black/30 rounded-lg p-2">
+        <ReactCrop
+          crop={crop}
+          onChange={(_, percentCrop) => setCrop(percentCrop)}
+          aspect={aspect}
+          keepSelection
+          ruleOfThirds
+          disabled={isLoading}
+        >
+          <img
+            src={imageUrl}
+            alt="Crop preview"
+            onLoad={handleImageLoad}
+            className="max-h-[420px] w-auto"
+          />
+        </ReactCrop>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-300">
+        <span>
+          {pixelCrop ? `Selection: ${pixelCrop.width} × ${pixelCrop.height}px` : 'Loading image...'}
+        </span>
+        <label className="flex items-center gap-2">
+          Resize to width
+          <input
+            type="number"
+            min={1}
+            max={MAX_OUTPUT_SIZE}
+            value={resizeWidth}
+            onChange={(e) => setResizeWidth(e.target.value)}
+            placeholder="Original"
+            disabled={isLoading}
+            className="w-24 bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          />
+          {outputSize && <span className="text-gray-500">× {outputSize.height}px</span>}
+        </label>
+      </div>
+
+      <button
+        onClick={handleApply}
+        disabled={isLoading || !hasSelection}
+        className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+      >
+        Apply Crop
+      </button>
+    </div>
+  );
+};
+
+export default CropPanel;
@@ -0,0 +1,292 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { loadImage } from '../services/compositionRenderer';
+import { detectSubjectMask, renderCutout, createCutoutFile, DEFAULT_CUTOUT_TOLERANCE } from '../services/cutout';
+import { isAbortError } from '../services/jobQueue';
+import { cloneMask, maskFromLuminance, paintMaskStroke, getCanvasContext, MaskBrushMode } from '../services/mask';
+
+interface CutoutEditorProps {
+  image: File;
+  /** Resolves to a black-and-white subject mask from the AI, as a data URL. */
+  onRequestAiMask: (image: File) => Promise<string>;
+  onApply: (cutout: File) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_SIZE = 480;
+const MAX_MASK_UNDO = 20;
+// Shows the transparent areas of the cut-out
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#374151 25%, #4b5563 0 50%, #374151 0 75%, #4b5563 0)',
+  backgroundSize: '16px 16px',
+};
+
+const CutoutEditor: React.FC<CutoutEditorProps> = ({ image, onRequestAiMask, onApply, onClose }) => {
+  const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
+  const [tolerance, setTolerance] = useState<number>(DEFAULT_CUTOUT_TOLERANCE);
+  const [brushMode, setBrushMode] = useState<MaskBrushMode>('erase');
+  const [brushSize, setBrushSize] = useState<number>(20);
+  const [undoCount, setUndoCount] = useState<number>(0);
+  const [isWorking, setIsWorking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+  const undoStackRef = useRef<HTMLCanvasElement[]>([]);
+  const lastPointRef = useRef<{ x: number, y: number } | null>(null);
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const mask = maskRef.current;
+    if (!canvas || !mask || !sourceImage) return;
+    const ctx = getCanvasContext(canvas);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    // Removed areas stay faintly visible so they can be brushed back in
+    ctx.globalAlpha = 0.2;
+    ctx.drawImage(sourceImage, 0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = 1;
+    ctx.drawImage(renderCutout(sourceImage, mask), 0, 0, canvas.width, canvas.height);
+  }, [sourceImage]);
+
+  const replaceMask = useCallback((mask: HTMLCanvasElement) => {
+    if (maskRef.current) {
+      undoStackRef.current = [...undoStackRef.current, maskRef.current].slice(-MAX_MASK_UNDO);
+      setUndoCount(undoStackRef.current.length);
+    }
+    maskRef.current = mask;
+    redraw();
+  }, [redraw]);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(image);
+    let cancelled = false;
+    loadImage(url)
+      .then(img => {
+        if (cancelled) return;
+        maskRef.current = detectSubjectMask(img);
+        setSourceImage(img);
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError('Could not read the image.');
+      });
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+    };
+  }, [image]);
+
+  // Size the preview to the image's aspect ratio, then draw it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !sourceImage) return;
+    const scale = PREVIEW_SIZE / Math.max(sourceImage.naturalWidth, sourceImage.naturalHeight);
+    canvas.width = Math.round(sourceImage.naturalWidth * scale);
+    canvas.height = Math.round(sourceImage.naturalHeight * scale);
+    redraw();
+  }, [sourceImage, redraw]);
+
+  const handleDetectLocally = () => {
+    if (!sourceImage) return;
+    replaceMask(detectSubjectMask(sourceImage, tolerance));
+  };
+
+  const handleDetectWithAi = async () => {
+    if (!sourceImage) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const maskUrl = await onRequestAiMask(image);
+      const maskImage = await loadImage(maskUrl);
+      replaceMask(maskFromLuminance(maskImage, sourceImage.naturalWidth, sourceImage.naturalHeight));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to detect the subject. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUndo = () => {
+    const previous = undoStackRef.current.pop();
+    if (!previous) return;
+    maskRef.current = previous;
+    setUndoCount(undoStackRef.current.length);
+    redraw();
+  };
+
+  const handleApply = async () => {
+    if (!sourceImage || !maskRef.current) return;
+    setIsWorking(true);
+    try {
+      onApply(await createCutoutFile(sourceImage, maskRef.current));
+      onClose();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setError(`Failed to cut out the subject. ${errorMessage}`);
+      console.error(err);
+      setIsWorking(false);
+    }
+  };
+
+  // Maps a pointer position to mask pixels
+  const toMaskPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const mask = maskRef.current!;
+    return {
+      x: (e.clientX - rect.left) * mask.width / rect.width,
+      y: (e.clientY - rect.top) * mask.height / rect.height,
+    };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const mask = maskRef.current;
+    if (!mask) return;
+    const point = toMaskPoint(e);
+    const radius = (brushSize / 2) * mask.width / e.currentTarget.getBoundingClientRect().width;
+    paintMaskStroke(mask, lastPointRef.current ?? point, point, radius, brushMode);
+    lastPointRef.current = point;
+    redraw();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!maskRef.current || isWorking) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    // Each stroke can be undone on its own
+    undoStackRef.current = [...undoStackRef.current, cloneMask(maskRef.current)].slice(-MAX_MASK_UNDO);
+    setUndoCount(undoStackRef.current.length);
+    lastPointRef.current = null;
+    paint(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) paint(e);
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-3xl max-h-[95vh] overflow-y-auto flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <h2 className="text-2xl font-bold text-white">Cut Out Subject</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col md:flex-row gap-6">
+          <div className="flex-shrink-0 flex items-center justify-center rounded-lg overflow-hidden" style={CHECKERBOARD_STYLE}>
+            {sourceImage ? (
+              <canvas
+                ref={canvasRef}
+                className="max-w-full touch-none cursor-crosshair"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              />
+            ) : (
+              <div className="w-72 h-72 flex items-center justify-center text-gray-300">Finding the subject...</div>
+            )}
+          </div>
+
+          <div className="flex-grow flex flex-col gap-5 text-sm text-gray-300">
+            <div className="flex flex-col gap-2">
+              <span className="font-semibold">Detect the subject</span>
+              <button
+                onClick={handleDetectWithAi}
+                disabled={!sourceImage || isWorking}
+                className="py-2 bg-white/10 text-gray-200 rounded-md font-semibold hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isWorking ? 'Working...' : 'Detect with AI'}
+              </button>
+              <label className="flex flex-col gap-1">
+                Background tolerance: {tolerance}
+                <input
+                  type="range"
+                  min={0}
+                  max={160}
+                  value={tolerance}
+                  onChange={(e) => setTolerance(Number(e.target.value))}
+                  className="w-full"
+                />
+              </label>
+              <button
+                onClick={handleDetectLocally}
+                disabled={!sourceImage || isWorking}
+                className="py-2 bg-white/10 text-gray-200 rounded-md font-semibold hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Detect from background colour
+              </button>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="font-semibold">Refine with the brush</span>
+              <div className="grid grid-cols-2 gap-2">
+                {(['erase', 'add'] as MaskBrushMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setBrushMode(mode)}
+                    className={`py-2 rounded-md font-semibold transition-colors ${brushMode === mode ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+                  >
+                    {mode === 'erase' ? 'Erase' : 'Restore'}
+                  </button>
+                ))}
+              </div>
+              <label className="flex flex-col gap-1">
+                Brush size: {brushSize}px
+                <input
+                  type="range"
+                  min={4}
+                  max={80}
+                  value={brushSize}
+                  onChange={(e) => setBrushSize(Number(e.target.value))}
+                  className="w-full"
+                />
+              </label>
+              <button
+                onClick={handleUndo}
+                disabled={undoCount === 0 || isWorking}
+                className="py-2 bg-white/10 text-gray-200 rounded-md font-semibold hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Undo
+              </button>
+            </div>
+
+            {error && <p className="text-red-400">{error}</p>}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 bg-gray-800/50 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-5 py-2 bg-white/10 text-gray-200 rounded-lg font-semibold hover:bg-white/20 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!sourceImage || isWorking}
+            className="px-5 py-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold rounded-lg transition-all duration-300 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            Apply Cut-out
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CutoutEditor;
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import type { DrawingPoint, DrawingStroke, DrawingTool } from '../types';
+import { STAGE_SIZE } from '../services/compositionRenderer';
+import { drawStroke, pointerPressure } from '../services/drawingLayers';
+import { getCanvasContext } from '../services/mask';
+
+interface DrawingPainterProps {
+  tool: DrawingTool;
+  color: string;
+  /** Brush diameter in stage pixels. */
+  width: number;
+  disabled: boolean;
+  /** Called after each stroke with its points in stage coordinates. */
+  onStroke: (stroke: DrawingStroke) => void;
+}
+
+// Points closer together than this add nothing but size
+const MIN_POINT_DISTANCE = 0.75;
+
+// Captures freehand strokes on top of the stage, showing the stroke in progress
+const DrawingPainter: React.FC<DrawingPainterProps> = ({ tool, color, width, disabled, onStroke }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const strokeRef = useRef<DrawingStroke | null>(null);
+
+  const draw = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = getCanvasContext(canvas);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    // The eraser can't clear the composition underneath, so show where it went instead
+    drawStroke(ctx, stroke.tool === 'eraser' ? { ...stroke, tool: 'highlighter', color: '#ffffff' } : stroke);
+  };
+
+  const addPoints = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    // Coalesced events carry the positions the browser merged since the last event, for smoother lines
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    for (const event of events.length > 0 ? events : [e.nativeEvent]) {
+      const point: DrawingPoint = [
+        (event.clientX - rect.left) * STAGE_SIZE / rect.width,
+        (event.clientY - rect.top) * STAGE_SIZE / rect.height,
+        pointerPressure(event),
+      ];
+      const last = stroke.points[stroke.points.length - 1];
+      if (last && Math.hypot(point[0] - last[0], point[1] - last[1]) < MIN_POINT_DISTANCE) continue;
+      stroke.points.push(point);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    strokeRef.current = { tool, color, width, points: [] };
+    addPoints(e);
+    draw();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!strokeRef.current) return;
+    addPoints(e);
+    draw();
+  };
+
+  const handlePointerUp = () => {
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    draw();
+    if (stroke && stroke.points.length > 0) onStroke(stroke);
+  };
+
+  const handlePointerCancel = () => {
+    strokeRef.current = null;
+    draw();
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={STAGE_SIZE}
+      height={STAGE_SIZE}
+      className={`absolute inset-0 touch-none ${disabled ? '' : 'cursor-crosshair'}`}
+      style={{ width: `${STAGE_SIZE}px`, height: `${STAGE_SIZE}px` }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+    />
+  );
+};
+
+export default DrawingPainter;
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { DrawingTool } from '../types';
+import { DRAWING_TOOLS } from '../services/drawingLayers';
+
+interface DrawingPanelProps {
+  tool: DrawingTool;
+  color: string;
+  width: number;
+  /** Name of the layer new strokes go into, or null if the next stroke starts a new layer. */
+  targetName: string | null;
+  onToolChange: (tool: DrawingTool) => void;
+  onColorChange: (color: string) => void;
+  onWidthChange: (width: number) => void;
+  onNewLayer: () => void;
+}
+
+const SWATCHES = ['#000000', '#ffffff', '#ef4444', '#f59e0b', '#facc15', '#22c55e', '#3b82f6', '#a855f7'];
+
+// Brush options for drawing freehand on the stage
+const DrawingPanel: React.FC<DrawingPanelProps> = ({
+  tool,
+  color,
+  width,
+  targetName,
+  onToolChange,
+  onColorChange,
+  onWidthChange,
+  onNewLayer,
+}) => {
+  const optionClass = (isActive: boolean) =>
+    `py-2 px-4 rounded-md font-semibold transition-colors ${
+      isActive ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+    }`;
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Draw</h3>
+      <p className="text-sm text-center text-gray-400 -mt-2">
+        {targetName
+          ? `Drawing into "${targetName}". Move, resize or reorder it from the Layers tab.`
+          : tool === 'eraser'
+            ? 'Pick a drawing layer in the Layers tab to erase from it.'
+            : 'Draw on the canvas to start a new drawing layer.'}
+      </p>
+
+      <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-gray-300">
+        <div className="flex gap-1">
+          {DRAWING_TOOLS.map(option => (
+            <button key={option.value} onClick={() => onToolChange(option.value)} className={optionClass(tool === option.value)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2">
+          Width
+          <input type="range" min={1} max={60} value={width} onChange={(e) => onWidthChange(Number(e.target.value))} />
+          <span className="text-gray-500 tabular-nums w-6">{width}</span>
+        </label>
+      </div>
+
+      {tool !== 'eraser' && (
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          {SWATCHES.map(swatch => (
+            <button
+              key={swatch}
+              onClick={() => onColorChange(swatch)}
+              className={`w-8 h-8 rounded-full border-2 transition-transform active:scale-90 ${color === swatch ? 'border-blue-400 scale-110' : 'border-gray-600'}`}
+              style={{ backgroundColor: swatch }}
+              aria-label={`Colour ${swatch}`}
+            />
+          ))}
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => onColorChange(e.target.value)}
+            className="w-8 h-8 bg-transparent rounded cursor-pointer"
+            aria-label="Custom colour"
+          />
+        </div>
+      )}
+
+      <button
+        onClick={onNewLayer}
+        disabled={!targetName}
+        className="self-center py-2 px-4 bg-transparent border border-white/20 text-gray-200 rounded-md font-semibold hover:bg-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        New Drawing Layer
+      </button>
+    </div>
+  );
+};
+
+export default DrawingPanel;
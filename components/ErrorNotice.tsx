@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { ImageEditErrorReason } from '../services/imageEditErrors';
+
+// An error shown inline above the editor, with the ways to recover from it
+export interface EditorNotice {
+  message: string;
+  /** Set for failed AI operations; decides which actions are offered. */
+  reason?: ImageEditErrorReason;
+  /** Runs the failed operation again. */
+  onRetry?: () => void;
+  /** Takes the user to the prompt that caused the error so it can be reworded. */
+  onRephrase?: () => void;
+}
+
+interface ErrorNoticeProps {
+  notice: EditorNotice;
+  onDismiss: () => void;
+  onOpenSettings?: () => void;
+}
+
+const TITLES: Record<ImageEditErrorReason, string> = {
+  'safety-blocked': 'Blocked by safety filters',
+  'no-image-returned': 'No image came back',
+  'rate-limited': 'Slow down a little',
+  'network': 'Connection problem',
+  'invalid-key': 'API key problem',
+};
+
+// Which recovery actions make sense for each kind of failure
+const ACTIONS: Record<ImageEditErrorReason, Array<'rephrase' | 'retry' | 'settings'>> = {
+  'safety-blocked': ['rephrase'],
+  'no-image-returned': ['rephrase', 'retry'],
+  'rate-limited': ['retry'],
+  'network': ['retry'],
+  'invalid-key': ['settings'],
+};
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ notice, onDismiss, onOpenSettings }) => {
+  const actions = notice.reason ? ACTIONS[notice.reason] : notice.onRetry ? ['retry'] : [];
+
+  const runAndDismiss = (action: () => void) => {
+    onDismiss();
+    action();
+  };
+
+  return (
+    <div role="alert" className="w-full bg-red-500/10 border border-red-500/30 text-red-300 rounded-lg p-3 text-sm flex items-start gap-3 animate-fade-in">
+      <div className="flex-grow min-w-0">
+        {notice.reason && <p className="font-semibold text-red-200">{TITLES[notice.reason]}</p>}
+        <p className="break-words">{notice.message}</p>
+        {actions.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            {actions.includes('rephrase') && notice.onRephrase && (
+              <button
+                onClick={() => runAndDismiss(notice.onRephrase!)}
+                className="px-3 py-1 bg-white/10 text-gray-200 rounded-md font-semibold hover:bg-white/20 transition-colors"
+              >
+                Rephrase
+              </button>
+            )}
+            {actions.includes('retry') && notice.onRetry && (
+              <button
+                onClick={() => runAndDismiss(notice.onRetry!)}
+                className="px-3 py-1 bg-white/10 text-gray-200 rounded-md font-semibold hover:bg-white/20 transition-colors"
+              >
+                Retry
+              </button>
+            )}
+            {actions.includes('settings') && onOpenSettings && (
+              <button
+                onClick={() => runAndDismiss(onOpenSettings)}
+                className="px-3 py-1 bg-white/10 text-gray-200 rounded-md font-semibold hover:bg-white/20 transition-colors"
+              >
+                Open Settings
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      <button
+        onClick={onDismiss}
+        className="flex-shrink-0 text-red-300 hover:text-white transition-colors text-lg leading-none"
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  ExportFormat,
+  ExportOptions,
+  supportsTransparency
+} from '../services/exportService';
+import { FailedAsset, STAGE_SIZE } from '../services/compositionRenderer';
+
+interface ExportDialogProps {
+  /** Resolves to the assets that failed to load; the export is only written when there are none or `allowMissingAssets` is set. */
+  onExport: (options: ExportOptions, allowMissingAssets: boolean) => Promise<FailedAsset[]>;
+  onClose: () => void;
+}
+
+const SCALE_PRESETS = [1, 2, 4];
+const MAX_CUSTOM_SIZE = 8192;
+
+const FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'image/png', label: 'PNG' },
+  { value: 'image/jpeg', label: 'JPEG' },
+  { value: 'image/webp', label: 'WebP' },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ onExport, onClose }) => {
+  const [scalePreset, setScalePreset] = useState<number | 'custom'>(DEFAULT_EXPORT_OPTIONS.scale);
+  const [customSize, setCustomSize] = useState<number>(STAGE_SIZE * 3);
+  const [format, setFormat] = useState<ExportFormat>(DEFAULT_EXPORT_OPTIONS.format);
+  const [quality, setQuality] = useState<number>(DEFAULT_EXPORT_OPTIONS.quality);
+  const [transparentBackground, setTransparentBackground] = useState<boolean>(DEFAULT_EXPORT_OPTIONS.transparentBackground);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [failedAssets, setFailedAssets] = useState<FailedAsset[]>([]);
+
+  const clampedCustomSize = Math.min(MAX_CUSTOM_SIZE, Math.max(16, Math.round(customSize) || 0));
+  const scale = scalePreset === 'custom' ? clampedCustomSize / STAGE_SIZE : scalePreset;
+  const outputSize = Math.round(STAGE_SIZE * scale);
+  const canBeTransparent = supportsTransparency(format);
+
+  const handleExport = async (allowMissingAssets: boolean) => {
+    setIsExporting(true);
+    try {
+      const failed = await onExport({
+        scale,
+        format,
+        quality,
+        transparentBackground: canBeTransparent && transparentBackground,
+      }, allowMissingAssets);
+      setFailedAssets(failed);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-lg flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <h2 className="text-2xl font-bold text-white">Export Image</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-6">
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold text-gray-300">Size</span>
+            <div className="grid grid-cols-4 gap-2">
+              {SCALE_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => setScalePreset(preset)}
+                  className={`py-2 rounded-md font-semibold transition-colors ${scalePreset === preset ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+                >
+                  {preset}×
+                </button>
+              ))}
+              <button
+                onClick={() => setScalePreset('custom')}
+                className={`py-2 rounded-md font-semibold transition-colors ${scalePreset === 'custom' ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+              >
+                Custom
+              </button>
+            </div>
+            {scalePreset === 'custom' && (
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                Width
+                <input
+                  type="number"
+                  min={16}
+                  max={MAX_CUSTOM_SIZE}
+                  value={customSize}
+                  onChange={(e) => setCustomSize(Number(e.target.value))}
+                  className="w-28 bg-gray-800 border border-gray-600 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+                px
+              </label>
+            )}
+            <p className="text-sm text-gray-500">Output: {outputSize} × {outputSize} px</p>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold text-gray-300">Format</span>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setFormat(option.value)}
+                  className={`py-2 rounded-md font-semibold transition-colors ${format === option.value ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            {format !== 'image/png' && (
+              <label className="flex items-center gap-3 text-sm text-gray-400">
+                Quality
+                <input
+                  type="range"
+                  min={0.1}
+                  max={1}
+                  step={0.01}
+                  value={quality}
+                  onChange={(e) => setQuality(Number(e.target.value))}
+                  className="flex-grow"
+                />
+                <span className="w-10 text-right">{Math.round(quality * 100)}%</span>
+              </label>
+            )}
+          </div>
+
+          <label className={`flex items-center gap-3 text-sm ${canBeTransparent ? 'text-gray-300' : 'text-gray-500'}`}>
+            <input
+              type="checkbox"
+              checked={canBeTransparent && transparentBackground}
+              disabled={!canBeTransparent}
+              onChange={(e) => setTransparentBackground(e.target.checked)}
+            />
+            Transparent background
+            {!canBeTransparent && <span className="text-xs">(not supported by JPEG)</span>}
+          </label>
+        </div>
+
+        {failedAssets.length > 0 && (
+          <div className="mx-6 mb-6 bg-yellow-500/10 border border-yellow-500/30 text-yellow-300 rounded-lg p-3 text-sm">
+            <p className="font-semibold">Some assets could not be loaded:</p>
+            <ul className="list-disc list-inside">
+              {failedAssets.map(asset => <li key={asset.id}>{asset.name}</li>)}
+            </ul>
+            <p className="mt-1">Remove them, or export anyway without them.</p>
+          </div>
+        )}
+
+        <div className="p-4 border-t border-gray-700 bg-gray-800/50 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-5 py-2 bg-white/10 text-gray-200 rounded-lg font-semibold hover:bg-white/20 transition-colors"
+          >
+            Cancel
+          </button>
+          {failedAssets.length > 0 && (
+            <button
+              onClick={() => handleExport(true)}
+              disabled={isExporting}
+              className="px-5 py-2 bg-yellow-600 text-white rounded-lg font-semibold hover:bg-yellow-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              Export Anyway
+            </button>
+          )}
+          <button
+            onClick={() => handleExport(false)}
+            disabled={isExporting}
+            className="px-5 py-2 bg-gradient-to-br from-green-600 to-green-500 text-white font-bold rounded-lg transition-all duration-300 disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
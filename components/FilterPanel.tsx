@@ -3,16 +3,100 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { BUILT_IN_FILTERS, LocalFilter, applyLocalFilter } from '../services/localFilters';
+import { CustomLut, deleteCustomLut, importCubeFile, listCustomLuts, saveCustomLut } from '../services/lut';
+import { canvasToFile } from '../services/mask';
+import { PREVIEW_MAX_SIZE, useSourceImage, useStagePreview } from './useStagePreview';
 
 interface FilterPanelProps {
   onApplyFilter: (prompt: string) => void;
+  /** The AI prompt, a preset's or custom text; kept by the editor so it is saved with the project. */
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
   isLoading: boolean;
+  currentImage: File;
+  /** Receives a low-resolution preview of the selected local filter, or null when none is selected. */
+  onPreviewChange: (previewUrl: string | null) => void;
+  onCommitFilter: (filtered: File, label: string) => void;
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) => {
-  const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
-  const [customPrompt, setCustomPrompt] = useState('');
+const toLocalFilter = (custom: CustomLut): LocalFilter => ({ kind: 'lut', id: custom.id, name: custom.name, lut: custom.lut });
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, prompt, onPromptChange, isLoading, currentImage, onPreviewChange, onCommitFilter }) => {
+  const [customLuts, setCustomLuts] = useState<CustomLut[]>([]);
+  const [selectedFilterId, setSelectedFilterId] = useState<string | null>(null);
+  const [intensity, setIntensity] = useState<number>(100);
+  const [isCommitting, setIsCommitting] = useState<boolean>(false);
+  const [localError, setLocalError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sourceImage = useSourceImage(currentImage);
+  const customFilters = useMemo(() => customLuts.map(toLocalFilter), [customLuts]);
+  const selectedFilter = [...BUILT_IN_FILTERS, ...customFilters].find(filter => filter.id === selectedFilterId) ?? null;
+
+  const renderPreview = useMemo(
+    () => sourceImage && selectedFilter ? () => applyLocalFilter(sourceImage, selectedFilter, intensity, PREVIEW_MAX_SIZE) : null,
+    [sourceImage, selectedFilter, intensity]
+  );
+  useStagePreview(renderPreview, onPreviewChange);
+
+  useEffect(() => {
+    listCustomLuts()
+      .then(setCustomLuts)
+      .catch(err => console.warn('Could not load imported LUTs:', err));
+  }, []);
+
+  const handleImportLut = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setLocalError(null);
+    try {
+      const custom = await importCubeFile(file);
+      await saveCustomLut(custom);
+      setCustomLuts(prev => [...prev, custom]);
+      setSelectedFilterId(custom.id);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setLocalError(`Failed to import the LUT. ${errorMessage}`);
+      console.error(err);
+    }
+  };
+
+  const handleRemoveLut = async (id: string) => {
+    try {
+      await deleteCustomLut(id);
+      setCustomLuts(prev => prev.filter(custom => custom.id !== id));
+      if (selectedFilterId === id) setSelectedFilterId(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setLocalError(`Failed to remove the LUT. ${errorMessage}`);
+      console.error(err);
+    }
+  };
+
+  const handleCommitLocal = async () => {
+    if (!sourceImage || !selectedFilter) return;
+    setIsCommitting(true);
+    setLocalError(null);
+    try {
+      const filtered = await canvasToFile(applyLocalFilter(sourceImage, selectedFilter, intensity), `filtered-${Date.now()}.png`);
+      onCommitFilter(filtered, `Filter: ${selectedFilter.name}${intensity < 100 ? ` (${intensity}%)` : ''}`);
+      setSelectedFilterId(null);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setLocalError(`Failed to apply the filter. ${errorMessage}`);
+      console.error(err);
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const filterButtonClass = (filter: LocalFilter) =>
+    `w-full text-center border border-transparent font-semibold py-2 px-3 rounded-md transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+      selectedFilterId === filter.id ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'
+    }`;
 
   const presets = [
     { name: 'Synthwave', prompt: 'Apply a vibrant 80s synthwave aesthetic with neon magenta and cyan glows, and subtle scan lines.' },
@@ -21,61 +105,134 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) =
     { name: 'Glitch', prompt: 'Transform the image into a futuristic holographic projection with digital glitch effects and chromatic aberration.' },
   ];
   
-  const activePrompt = selectedPresetPrompt || customPrompt;
+  const selectedPresetPrompt = presets.some(preset => preset.prompt === prompt) ? prompt : null;
+  const customPrompt = selectedPresetPrompt ? '' : prompt;
 
-  const handlePresetClick = (prompt: string) => {
-    setSelectedPresetPrompt(prompt);
-    setCustomPrompt('');
+  const handlePresetClick = (presetPrompt: string) => {
+    onPromptChange(presetPrompt);
   };
   
   const handleCustomChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setCustomPrompt(e.target.value);
-    setSelectedPresetPrompt(null);
+    onPromptChange(e.target.value);
   };
 
   const handleApply = () => {
-    if (activePrompt) {
-      onApplyFilter(activePrompt);
+    if (prompt) {
+      onApplyFilter(prompt);
     }
   };
 
   return (
-    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
-      <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Filter</h3>
-      
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-        {presets.map(preset => (
+    <div className="w-full flex flex-col gap-4">
+      <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+        <h3 className="text-lg font-semibold text-center text-gray-300">Local Filters</h3>
+        <p className="text-sm text-center text-gray-400 -mt-2">Colour grades and effects made on your device. They look exactly the same every time.</p>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {BUILT_IN_FILTERS.map(filter => (
+            <button
+              key={filter.id}
+              onClick={() => setSelectedFilterId(prev => prev === filter.id ? null : filter.id)}
+              disabled={isCommitting}
+              className={filterButtonClass(filter)}
+            >
+              {filter.name}
+            </button>
+          ))}
+          {customFilters.map(filter => (
+            <div key={filter.id} className="relative">
+              <button
+                onClick={() => setSelectedFilterId(prev => prev === filter.id ? null : filter.id)}
+                disabled={isCommitting}
+                className={`${filterButtonClass(filter)} pr-7 truncate`}
+                title={filter.name}
+              >
+                {filter.name}
+              </button>
+              <button
+                onClick={() => handleRemoveLut(filter.id)}
+                disabled={isCommitting}
+                className="absolute top-1/2 right-2 -translate-y-1/2 text-gray-400 hover:text-white"
+                aria-label={`Remove ${filter.name}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
           <button
-            key={preset.name}
-            onClick={() => handlePresetClick(preset.prompt)}
-            disabled={isLoading}
-            className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isCommitting}
+            className="w-full text-center border border-dashed border-gray-500 text-gray-300 font-semibold py-2 px-3 rounded-md transition-colors text-sm hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {preset.name}
+            Import .cube LUT
           </button>
-        ))}
+          <input ref={fileInputRef} type="file" accept=".cube" className="hidden" onChange={handleImportLut} />
+        </div>
+
+        <label className="flex flex-col gap-1 text-sm text-gray-300">
+          <span className="flex justify-between">
+            Intensity
+            <span className="text-gray-500 tabular-nums">{intensity}%</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={intensity}
+            onChange={(e) => setIntensity(Number(e.target.value))}
+            disabled={isCommitting}
+            className="w-full"
+          />
+        </label>
+
+        {localError && <p className="text-sm text-red-400">{localError}</p>}
+
+        <button
+          onClick={handleCommitLocal}
+          disabled={isCommitting || !sourceImage || !selectedFilter}
+          className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 disabled:from-blue-800 disabled:to-blue-700 disabled:cursor-not-allowed"
+        >
+          {isCommitting ? 'Applying...' : selectedFilter ? `Apply ${selectedFilter.name}` : 'Pick a Filter'}
+        </button>
       </div>
 
-      <input
-        type="text"
-        value={customPrompt}
-        onChange={handleCustomChange}
-        placeholder="Or describe a custom filter (e.g., '80s synthwave glow')"
-        className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
-        disabled={isLoading}
-      />
+      <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+        <h3 className="text-lg font-semibold text-center text-gray-300">Apply a Filter with AI</h3>
       
-      {activePrompt && (
-        <div className="animate-fade-in flex flex-col gap-4 pt-2">
-          <button
-            onClick={handleApply}
-            className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-            disabled={isLoading || !activePrompt.trim()}
-          >
-            Apply Filter
-          </button>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {presets.map(preset => (
+            <button
+              key={preset.name}
+              onClick={() => handlePresetClick(preset.prompt)}
+              disabled={isLoading}
+              className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
+            >
+              {preset.name}
+            </button>
+          ))}
         </div>
-      )}
+
+        <input
+          type="text"
+          value={customPrompt}
+          onChange={handleCustomChange}
+          placeholder="Or describe a custom filter (e.g., '80s synthwave glow')"
+          className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
+          disabled={isLoading}
+        />
+      
+        {prompt && (
+          <div className="animate-fade-in flex flex-col gap-4 pt-2">
+            <button
+              onClick={handleApply}
+              className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+              disabled={isLoading || !prompt.trim()}
+            >
+              Apply Filter
+            </button>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
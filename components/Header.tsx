@@ -10,14 +10,29 @@ const SparkleIcon: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  onOpenSettings?: () => void;
+  /** Flags the settings button so users notice AI edits need a key. */
+  isApiKeyMissing?: boolean;
+}
+
+const Header: React.FC<HeaderProps> = ({ onOpenSettings, isApiKeyMissing }) => {
   return (
     <header className="w-full py-4 px-8 border-b border-gray-700 bg-gray-800/30 backdrop-blur-sm sticky top-0 z-50">
-      <div className="flex items-center justify-center gap-3">
+      <div className="relative flex items-center justify-center gap-3">
           <SparkleIcon className="w-6 h-6 text-blue-400" />
           <h1 className="text-xl font-bold tracking-tight text-gray-100">
             Pixshop
           </h1>
+          {onOpenSettings && (
+            <button
+              onClick={onOpenSettings}
+              className="absolute right-0 flex items-center gap-2 px-3 py-1.5 text-sm font-semibold text-gray-300 rounded-md hover:text-white hover:bg-white/10 transition-colors"
+            >
+              {isApiKeyMissing && <span className="w-2 h-2 rounded-full bg-yellow-400" />}
+              {isApiKeyMissing ? 'Add API Key' : 'Settings'}
+            </button>
+          )}
       </div>
     </header>
   );
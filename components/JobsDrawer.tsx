@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { Job, JobStatus } from '../services/jobQueue';
+
+interface JobsDrawerProps {
+  jobs: Job[];
+  onCancel: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running',
+  retrying: 'Retrying',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<JobStatus, string> = {
+  queued: 'text-gray-400',
+  running: 'text-blue-400',
+  retrying: 'text-yellow-400',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-500',
+};
+
+const isActive = (job: Job) => job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+// A small drawer in the corner listing AI jobs, so more can be queued while one runs
+const JobsDrawer: React.FC<JobsDrawerProps> = ({ jobs, onCancel, onClearFinished }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const activeCount = jobs.filter(isActive).length;
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 flex flex-col items-end gap-2">
+      {isOpen && (
+        <div className="w-80 max-h-96 overflow-y-auto bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl backdrop-blur-sm animate-fade-in">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+            <h3 className="font-semibold text-gray-200">AI Jobs</h3>
+            <button
+              onClick={onClearFinished}
+              disabled={activeCount === jobs.length}
+              className="text-xs text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Clear finished
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-800">
+            {[...jobs].reverse().map(job => (
+              <li key={job.id} className="px-4 py-3 flex items-start gap-3 text-sm">
+                <div className="flex-grow min-w-0">
+                  <p className="text-gray-200 truncate" title={job.label}>{job.label}</p>
+                  <p className={STATUS_COLORS[job.status]}>
+                    {STATUS_LABELS[job.status]}
+                    {job.attempt > 1 && isActive(job) && ` (attempt ${job.attempt} of ${job.maxAttempts})`}
+                  </p>
+                  {job.error && job.status !== 'succeeded' && (
+                    <p className="text-xs text-gray-500 truncate" title={job.error}>{job.error}</p>
+                  )}
+                </div>
+                {isActive(job) && (
+                  <button
+                    onClick={() => onCancel(job.id)}
+                    className="flex-shrink-0 px-2 py-1 text-xs bg-white/10 text-gray-300 rounded hover:bg-red-600 hover:text-white transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 px-4 py-2 bg-gray-800 border border-gray-600 text-gray-200 rounded-full shadow-lg hover:bg-gray-700 transition-colors"
+      >
+        {activeCount > 0 && <span className="w-2 h-2 rounded-full bg-blue-400 animate-pulse" />}
+        Jobs{activeCount > 0 ? ` (${activeCount})` : ''}
+      </button>
+    </div>
+  );
+};
+
+export default JobsDrawer;
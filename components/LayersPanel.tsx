@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { Overlay } from '../types';
+import { getLayerOrder } from '../services/layers';
+import { BASE_LAYER_ID } from '../services/compositionRenderer';
+import { resolveAssetUrl } from '../services/customAssets';
+import { EyeIcon, EyeSlashIcon, LockClosedIcon, LockOpenIcon, DuplicateIcon } from './icons';
+
+interface LayersPanelProps {
+  overlays: Overlay[];
+  baseImageUrl: string | null;
+  selectedIds: string[];
+  onSelectLayer: (id: string, additive: boolean) => void;
+  onReorder: (order: string[]) => void;
+  onUpdateOverlay: (id: string, updates: Partial<Overlay>) => void;
+  onDuplicateOverlay: (id: string) => void;
+  onRemoveOverlay: (id: string) => void;
+}
+
+const LayersPanel: React.FC<LayersPanelProps> = ({
+  overlays,
+  baseImageUrl,
+  selectedIds,
+  onSelectLayer,
+  onReorder,
+  onUpdateOverlay,
+  onDuplicateOverlay,
+  onRemoveOverlay
+}) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const order = getLayerOrder(overlays);
+  const overlaysById = new Map<string, Overlay>(overlays.map(overlay => [overlay.id, overlay]));
+
+  const handleDrop = (targetId: string) => {
+    if (draggedId && draggedId !== targetId) {
+      const newOrder = order.filter(id => id !== draggedId);
+      newOrder.splice(order.indexOf(targetId), 0, draggedId);
+      onReorder(newOrder);
+    }
+    setDraggedId(null);
+    setDropTargetId(null);
+  };
+
+  const startRename = (overlay: Overlay) => {
+    setRenamingId(overlay.id);
+    setRenameValue(overlay.name);
+  };
+
+  const commitRename = () => {
+    const overlay = renamingId ? overlaysById.get(renamingId) : undefined;
+    if (overlay && renameValue.trim() && renameValue.trim() !== overlay.name) {
+      onUpdateOverlay(overlay.id, { name: renameValue.trim() });
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-2 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Layers</h3>
+      <p className="text-sm text-gray-500 text-center">Drag to reorder. The top of the list is drawn in front. Shift-click to select several.</p>
+
+      <ul className="flex flex-col gap-1">
+        {order.map(id => {
+          const overlay = overlaysById.get(id);
+          const isBase = id === BASE_LAYER_ID;
+          const name = isBase ? 'Base image' : overlay?.name ?? '';
+          const src = isBase ? baseImageUrl : overlay && !overlay.text && !overlay.drawing && resolveAssetUrl(overlay.src);
+
+          return (
+            <li
+              key={id}
+              draggable={renamingId !== id}
+              onDragStart={(e) => {
+                setDraggedId(id);
+                e.dataTransfer.effectAllowed = 'move';
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTargetId(id);
+              }}
+              onDragLeave={() => setDropTargetId(current => current === id ? null : current)}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(id);
+              }}
+              onDragEnd={() => {
+                setDraggedId(null);
+                setDropTargetId(null);
+              }}
+              onClick={(e) => {
+                // Clicks on the row's own buttons and rename field don't change the selection
+                if (overlay && !(e.target as HTMLElement).closest('button, input')) onSelectLayer(id, e.shiftKey);
+              }}
+              className={`flex items-center gap-3 p-2 rounded-md border cursor-grab transition-colors ${
+                dropTargetId === id && draggedId !== id ? 'border-blue-500 bg-blue-500/10'
+                  : selectedIds.includes(id) ? 'border-blue-400 bg-blue-500/20' : 'border-gray-700 bg-gray-800'
+              } ${draggedId === id ? 'opacity-50' : ''} ${overlay?.hidden ? 'text-gray-500' : 'text-gray-200'}`}
+            >
+              <div className="w-10 h-10 flex-shrink-0 bg-gray-700 rounded overflow-hidden flex items-center justify-center">
+                {src && <img src={src} alt={name} className="w-full h-full object-contain" draggable={false} />}
+                {overlay?.text && <span className="text-lg font-bold text-gray-300" aria-hidden="true">T</span>}
+                {overlay?.drawing && <span className="text-lg text-gray-300" aria-hidden="true">✎</span>}
+              </div>
+
+              {renamingId === id ? (
+                <input
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="flex-grow min-w-0 bg-gray-900 border border-gray-600 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                />
+              ) : (
+                <span
+                  className={`flex-grow min-w-0 truncate text-sm ${isBase ? 'font-semibold' : ''}`}
+                  onDoubleClick={() => overlay && startRename(overlay)}
+                  title={isBase ? undefined : 'Double-click to rename'}
+                >
+                  {name}
+                </span>
+              )}
+
+              {overlay && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onUpdateOverlay(overlay.id, { hidden: !overlay.hidden })}
+                    className="p-1 rounded hover:bg-white/10"
+                    aria-label={overlay.hidden ? `Show ${name}` : `Hide ${name}`}
+                  >
+                    {overlay.hidden ? <EyeSlashIcon className="w-5 h-5" /> : <EyeIcon className="w-5 h-5" />}
+                  </button>
+                  <button
+                    onClick={() => onUpdateOverlay(overlay.id, { locked: !overlay.locked })}
+                    className={`p-1 rounded hover:bg-white/10 ${overlay.locked ? 'text-yellow-400' : ''}`}
+                    aria-label={overlay.locked ? `Unlock ${name}` : `Lock ${name}`}
+                  >
+                    {overlay.locked ? <LockClosedIcon className="w-5 h-5" /> : <LockOpenIcon className="w-5 h-5" />}
+                  </button>
+                  <button
+                    onClick={() => onDuplicateOverlay(overlay.id)}
+                    className="p-1 rounded hover:bg-white/10"
+                    aria-label={`Duplicate ${name}`}
+                  >
+                    <DuplicateIcon className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => onRemoveOverlay(overlay.id)}
+                    disabled={overlay.locked}
+                    className="p-1 w-7 rounded hover:bg-red-600 disabled:opacity-40 disabled:hover:bg-transparent"
+                    aria-label={`Remove ${name}`}
+                  >
+                    ×
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default LayersPanel;
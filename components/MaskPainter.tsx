@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { STAGE_SIZE, Rect } from '../services/compositionRenderer';
+import {
+  cloneMask,
+  createMask,
+  fillMaskPolygon,
+  getCanvasContext,
+  isMaskEmpty,
+  paintMaskStroke,
+  MaskBrushMode,
+  MaskTool
+} from '../services/mask';
+
+interface MaskPainterProps {
+  /** Natural size of the image being masked; the mask has the same size. */
+  imageSize: { width: number; height: number };
+  /** Where the image is drawn on the stage. */
+  imageRect: Rect;
+  /** The current mask, or null if nothing is selected. */
+  mask: HTMLCanvasElement | null;
+  tool: MaskTool;
+  mode: MaskBrushMode;
+  /** Brush diameter in stage pixels. */
+  brushSize: number;
+  disabled: boolean;
+  /** Called after each stroke or shape with the new mask, or null if it ended up empty. */
+  onMaskChange: (mask: HTMLCanvasElement | null) => void;
+}
+
+type Point = { x: number; y: number };
+
+const MASK_TINT = 'rgba(59, 130, 246, 0.5)';
+
+// Draws and edits the retouch mask on top of the stage
+const MaskPainter: React.FC<MaskPainterProps> = ({ imageSize, imageRect, mask, tool, mode, brushSize, disabled, onMaskChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The mask being edited by the current gesture, and the gesture's points in stage coordinates
+  const workingMaskRef = useRef<HTMLCanvasElement | null>(null);
+  const pointsRef = useRef<Point[]>([]);
+
+  const toMaskPoint = (point: Point): Point => ({
+    x: (point.x - imageRect.x) * imageSize.width / imageRect.width,
+    y: (point.y - imageRect.y) * imageSize.height / imageRect.height,
+  });
+
+  const draw = (current: HTMLCanvasElement | null) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = getCanvasContext(canvas);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    if (current) {
+      ctx.save();
+      ctx.drawImage(current, imageRect.x, imageRect.y, imageRect.width, imageRect.height);
+      // Tint the selected area so it reads as a selection rather than a white blob
+      ctx.globalCompositeOperation = 'source-in';
+      ctx.fillStyle = MASK_TINT;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.restore();
+    }
+
+    const points = pointsRef.current;
+    if (tool !== 'brush' && points.length > 1) {
+      ctx.save();
+      ctx.strokeStyle = '#fff';
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      if (tool === 'rectangle') {
+        const [start, end] = [points[0], points[points.length - 1]];
+        ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y);
+      } else {
+        ctx.moveTo(points[0].x, points[0].y);
+        points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+        ctx.closePath();
+      }
+      ctx.stroke();
+      ctx.restore();
+    }
+  };
+
+  useEffect(() => {
+    draw(mask);
+  });
+
+  const stagePoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * STAGE_SIZE / rect.width,
+      y: (e.clientY - rect.top) * STAGE_SIZE / rect.height,
+    };
+  };
+
+  const paintTo = (point: Point) => {
+    const working = workingMaskRef.current!;
+    const previous = pointsRef.current[pointsRef.current.length - 1] ?? point;
+    const radius = (brushSize / 2) * imageSize.width / imageRect.width;
+    paintMaskStroke(working, toMaskPoint(previous), toMaskPoint(point), radius, mode);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    workingMaskRef.current = mask ? cloneMask(mask) : createMask(imageSize.width, imageSize.height);
+    pointsRef.current = [];
+    const point = stagePoint(e);
+    if (tool === 'brush') paintTo(point);
+    pointsRef.current = [point];
+    draw(workingMaskRef.current);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!workingMaskRef.current) return;
+    const point = stagePoint(e);
+    if (tool === 'brush') paintTo(point);
+    pointsRef.current = tool === 'rectangle' ? [pointsRef.current[0], point] : [...pointsRef.current, point];
+    draw(workingMaskRef.current);
+  };
+
+  const handlePointerUp = () => {
+    const working = workingMaskRef.current;
+    if (!working) return;
+    const points = pointsRef.current;
+    if (tool === 'rectangle' && points.length === 2) {
+      const [start, end] = points;
+      fillMaskPolygon(working, [start, { x: end.x, y: start.y }, end, { x: start.x, y: end.y }].map(toMaskPoint), mode);
+    } else if (tool === 'lasso') {
+      fillMaskPolygon(working, points.map(toMaskPoint), mode);
+    }
+    workingMaskRef.current = null;
+    pointsRef.current = [];
+    onMaskChange(isMaskEmpty(working) ? null : working);
+  };
+
+  const handlePointerCancel = () => {
+    workingMaskRef.current = null;
+    pointsRef.current = [];
+    draw(mask);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={STAGE_SIZE}
+      height={STAGE_SIZE}
+      className={`absolute inset-0 touch-none ${disabled ? '' : 'cursor-crosshair'}`}
+      style={{ width: `${STAGE_SIZE}px`, height: `${STAGE_SIZE}px` }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
+    />
+  );
+};
+
+export default MaskPainter;
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import type { SessionSummary } from '../services/sessionStore';
+
+interface SessionPickerProps {
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  title: string;
+  onRestore: (id: string) => void;
+  onDelete: (id: string) => void;
+  onStartNew: () => void;
+  onClose?: () => void;
+}
+
+const SessionThumbnail: React.FC<{ file: File | null; name: string }> = ({ file, name }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return (
+    <div className="w-16 h-16 flex-shrink-0 bg-gray-700 rounded-md overflow-hidden flex items-center justify-center">
+      {url ? <img src={url} alt={name} className="w-full h-full object-contain" /> : <span className="text-2xl">🎨</span>}
+    </div>
+  );
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const SessionPicker: React.FC<SessionPickerProps> = ({
+  sessions,
+  activeSessionId,
+  title,
+  onRestore,
+  onDelete,
+  onStartNew,
+  onClose
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-xl max-h-[80vh] flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <h2 className="text-2xl font-bold text-white">{title}</h2>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-white transition-colors text-2xl"
+            >
+              ×
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-2">
+          {sessions.length === 0 && (
+            <p className="text-gray-400 text-center py-8">No saved sessions yet.</p>
+          )}
+          {sessions.map(session => (
+            <div
+              key={session.id}
+              className={`flex items-center gap-4 p-3 rounded-lg border ${session.id === activeSessionId ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 bg-gray-800'}`}
+            >
+              <SessionThumbnail file={session.thumbnail} name={session.name} />
+              <div className="flex-grow min-w-0">
+                <p className="text-gray-100 font-semibold truncate">{session.name}</p>
+                <p className="text-sm text-gray-400">Last edited {formatTime(session.updatedAt)}</p>
+              </div>
+              <button
+                onClick={() => onRestore(session.id)}
+                disabled={session.id === activeSessionId}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {session.id === activeSessionId ? 'Current' : 'Restore'}
+              </button>
+              <button
+                onClick={() => onDelete(session.id)}
+                disabled={session.id === activeSessionId}
+                className="px-3 py-2 bg-white/10 text-gray-300 rounded-lg hover:bg-red-600 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white/10"
+                aria-label={`Delete ${session.name}`}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 bg-gray-800/50 flex justify-end">
+          <button
+            onClick={onStartNew}
+            className="bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white font-bold py-2 px-6 rounded-lg transition-all duration-300"
+          >
+            Start New Session
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionPicker;
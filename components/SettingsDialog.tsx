@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { ApiKeyPersistence, ApiSettings, GEMINI_MODELS, loadApiSettings } from '../services/apiSettings';
+import { isAbortError } from '../services/jobQueue';
+
+interface SettingsDialogProps {
+  /** Tests the settings against the API; resolves with the model's display name. */
+  onTest: (settings: ApiSettings, signal: AbortSignal) => Promise<string>;
+  onSave: (settings: ApiSettings) => void;
+  onClose: () => void;
+}
+
+type ConnectionTest =
+  | { status: 'idle' }
+  | { status: 'testing' }
+  | { status: 'ok'; modelName: string }
+  | { status: 'failed'; message: string };
+
+const PERSISTENCE_OPTIONS: Array<{ value: ApiKeyPersistence; label: string; description: string }> = [
+  { value: 'local', label: 'Remember on this device', description: 'Kept in this browser until you clear it.' },
+  { value: 'session', label: 'This session only', description: 'Forgotten when you close the tab.' },
+];
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ onTest, onSave, onClose }) => {
+  const [initialSettings] = useState<ApiSettings>(loadApiSettings);
+  const [apiKey, setApiKey] = useState<string>(initialSettings.apiKey);
+  const [showKey, setShowKey] = useState<boolean>(false);
+  const [model, setModel] = useState<string>(initialSettings.model);
+  const [persistence, setPersistence] = useState<ApiKeyPersistence>(initialSettings.persistence);
+  const [test, setTest] = useState<ConnectionTest>({ status: 'idle' });
+  const testControllerRef = useRef<AbortController | null>(null);
+
+  const settings: ApiSettings = { apiKey: apiKey.trim(), model, persistence };
+  // A model saved from an older list is still offered
+  const models = GEMINI_MODELS.some(option => option.id === model)
+    ? GEMINI_MODELS
+    : [...GEMINI_MODELS, { id: model, label: model }];
+
+  useEffect(() => () => testControllerRef.current?.abort(), []);
+
+  // A result only describes the settings it was run with
+  useEffect(() => {
+    testControllerRef.current?.abort();
+    setTest({ status: 'idle' });
+  }, [apiKey, model]);
+
+  const handleTest = async () => {
+    testControllerRef.current?.abort();
+    const controller = new AbortController();
+    testControllerRef.current = controller;
+    setTest({ status: 'testing' });
+    try {
+      const modelName = await onTest(settings, controller.signal);
+      if (!controller.signal.aborted) setTest({ status: 'ok', modelName });
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) return;
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      setTest({ status: 'failed', message: errorMessage });
+      console.error(err);
+    }
+  };
+
+  const handleSave = () => {
+    onSave(settings);
+    onClose();
+  };
+
+  const handleClearKey = () => {
+    setApiKey('');
+    onSave({ ...settings, apiKey: '' });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-lg flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <h2 className="text-2xl font-bold text-white">Settings</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="p-6 flex flex-col gap-6 text-sm text-gray-300">
+          {!initialSettings.apiKey && (
+            <div className="bg-yellow-500/10 border border-yellow-500/30 text-yellow-300 rounded-lg p-3">
+              No API key is configured, so AI edits, filters and adjustments won't run. Get a key from{' '}
+              <a href="https://aistudio.google.com/apikey" target="_blank" rel="noreferrer" className="underline hover:text-white">
+                Google AI Studio
+              </a>{' '}
+              and paste it below.
+            </div>
+          )}
+
+          <div className="flex flex-col gap-2">
+            <label htmlFor="gemini-api-key" className="font-semibold">Gemini API key</label>
+            <div className="flex gap-2">
+              <input
+                id="gemini-api-key"
+                type={showKey ? 'text' : 'password'}
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="Paste your API key"
+                autoComplete="off"
+                spellCheck={false}
+                className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+              <button
+                onClick={() => setShowKey(prev => !prev)}
+                className="px-3 bg-white/10 text-gray-200 rounded-md font-semibold hover:bg-white/20 transition-colors"
+              >
+                {showKey ? 'Hide' : 'Show'}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">The key is only stored in this browser and sent directly to Google.</p>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <span className="font-semibold">Keep the key</span>
+            {PERSISTENCE_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="api-key-persistence"
+                  checked={persistence === option.value}
+                  onChange={() => setPersistence(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  {option.label}
+                  <span className="block text-xs text-gray-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <label htmlFor="gemini-model" className="font-semibold">Model</label>
+            <select
+              id="gemini-model"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              className="bg-gray-800 border border-gray-700 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              {models.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleTest}
+              disabled={!settings.apiKey || test.status === 'testing'}
+              className="px-4 py-2 bg-white/10 text-gray-200 rounded-md font-semibold hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {test.status === 'testing' ? 'Testing...' : 'Test Connection'}
+            </button>
+            {test.status === 'ok' && <p className="text-green-400">Connected. {test.modelName} is available.</p>}
+            {test.status === 'failed' && <p className="text-red-400 break-words min-w-0">{test.message}</p>}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-700 bg-gray-800/50 flex justify-between gap-3">
+          <button
+            onClick={handleClearKey}
+            disabled={!initialSettings.apiKey && !apiKey}
+            className="px-5 py-2 text-red-300 rounded-lg font-semibold hover:bg-red-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Forget Key
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-5 py-2 bg-white/10 text-gray-200 rounded-lg font-semibold hover:bg-white/20 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-5 py-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold rounded-lg transition-all duration-300"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect } from 'react';
+import type { Overlay, TextAlign, TextLayer } from '../types';
+import {
+  CAPTION_PRESETS,
+  CaptionPosition,
+  DEFAULT_TEXT_LAYER,
+  MAX_TEXT_ARC,
+  TEXT_FONTS,
+  loadTextLayerFonts,
+} from '../services/textLayers';
+
+interface TextPanelProps {
+  /** The selected text layer, if exactly one is selected. */
+  selectedText: (Overlay & { text: TextLayer }) | null;
+  onAddText: (text: TextLayer, position: CaptionPosition) => void;
+  /** `mergeKey` groups the updates of one slider drag or typing session into one undo entry. */
+  onUpdateText: (id: string, text: TextLayer, mergeKey?: string) => void;
+}
+
+const ALIGNMENTS: Array<{ value: TextAlign; label: string }> = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' },
+];
+
+const TextPanel: React.FC<TextPanelProps> = ({ selectedText, onAddText, onUpdateText }) => {
+  // Load every font up front so switching fonts measures the real one
+  useEffect(() => {
+    loadTextLayerFonts(TEXT_FONTS.map(font => ({ ...DEFAULT_TEXT_LAYER, fontFamily: font.family })));
+  }, []);
+
+  const text = selectedText?.text ?? null;
+  const isLocked = !!selectedText?.locked;
+
+  const update = (changes: Partial<TextLayer>, mergeKey?: string) => {
+    if (!selectedText || !text) return;
+    onUpdateText(selectedText.id, { ...text, ...changes }, mergeKey && `${selectedText.id}:${mergeKey}`);
+  };
+
+  const slider = (label: string, key: 'fontSize' | 'strokeWidth' | 'shadowBlur' | 'arc', min: number, max: number) => text && (
+    <label className="flex flex-col gap-1 text-sm text-gray-300">
+      <span className="flex justify-between">
+        {label}
+        <span className="text-gray-500 tabular-nums">{Math.round(text[key])}</span>
+      </span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        value={text[key]}
+        onChange={(e) => update({ [key]: Number(e.target.value) }, key)}
+        disabled={isLocked}
+        className="w-full"
+      />
+    </label>
+  );
+
+  const colour = (label: string, key: 'fill' | 'stroke' | 'shadowColor') => text && (
+    <label className="flex items-center gap-2 text-sm text-gray-300">
+      <input
+        type="color"
+        value={text[key]}
+        onChange={(e) => update({ [key]: e.target.value }, key)}
+        disabled={isLocked}
+        className="w-8 h-8 bg-transparent rounded cursor-pointer disabled:cursor-not-allowed"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">Add Text</h3>
+
+      <div className="grid grid-cols-3 gap-2">
+        {CAPTION_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => onAddText(preset.text, preset.position)}
+            className="w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base"
+          >
+            {preset.label}
+          </button>
+        ))}
+        <button
+          onClick={() => onAddText(DEFAULT_TEXT_LAYER, 'center')}
+          className="w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base"
+        >
+          Text Box
+        </button>
+      </div>
+
+      {!selectedText || !text ? (
+        <p className="text-sm text-center text-gray-400">Select a text layer on the stage to edit it.</p>
+      ) : (
+        <div className="flex flex-col gap-3 animate-fade-in">
+          {isLocked && <p className="text-sm text-center text-gray-400">This layer is locked. Unlock it in the Layers tab to edit it.</p>}
+          <textarea
+            value={text.content}
+            onChange={(e) => update({ content: e.target.value }, 'content')}
+            disabled={isLocked}
+            rows={2}
+            aria-label="Text"
+            className="bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
+          />
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={text.fontFamily}
+              onChange={(e) => update({ fontFamily: e.target.value })}
+              disabled={isLocked}
+              aria-label="Font"
+              className="flex-grow bg-gray-800 border border-gray-700 text-gray-200 rounded-md p-2 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            >
+              {!TEXT_FONTS.some(font => font.family === text.fontFamily) && <option value={text.fontFamily}>{text.fontFamily}</option>}
+              {TEXT_FONTS.map(font => (
+                <option key={font.label} value={font.family}>{font.label}</option>
+              ))}
+            </select>
+            <div className="flex rounded-md overflow-hidden border border-gray-700" role="group" aria-label="Alignment">
+              {ALIGNMENTS.map(alignment => (
+                <button
+                  key={alignment.value}
+                  onClick={() => update({ align: alignment.value })}
+                  disabled={isLocked}
+                  className={`px-3 py-2 text-sm font-semibold transition-colors disabled:cursor-not-allowed ${text.align === alignment.value ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-300 hover:bg-white/10'}`}
+                >
+                  {alignment.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-4">
+            {colour('Fill', 'fill')}
+            {colour('Outline', 'stroke')}
+            {colour('Shadow', 'shadowColor')}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+            {slider('Size', 'fontSize', 12, 160)}
+            {slider('Outline', 'strokeWidth', 0, 20)}
+            {slider('Shadow', 'shadowBlur', 0, 40)}
+            {slider('Arc', 'arc', -MAX_TEXT_ARC, MAX_TEXT_ARC)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TextPanel;
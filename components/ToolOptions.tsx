@@ -2,3 +2,92 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React from 'react';
+import type { MaskBrushMode, MaskTool } from '../services/mask';
+
+interface ToolOptionsProps {
+  tool: MaskTool;
+  mode: MaskBrushMode;
+  brushSize: number;
+  hasMask: boolean;
+  disabled: boolean;
+  onToolChange: (tool: MaskTool) => void;
+  onModeChange: (mode: MaskBrushMode) => void;
+  onBrushSizeChange: (size: number) => void;
+  onClearMask: () => void;
+}
+
+const TOOLS: Array<{ value: MaskTool; label: string }> = [
+  { value: 'brush', label: 'Brush' },
+  { value: 'lasso', label: 'Lasso' },
+  { value: 'rectangle', label: 'Rectangle' },
+];
+
+// Options for the tools that paint the retouch mask
+const ToolOptions: React.FC<ToolOptionsProps> = ({
+  tool,
+  mode,
+  brushSize,
+  hasMask,
+  disabled,
+  onToolChange,
+  onModeChange,
+  onBrushSizeChange,
+  onClearMask
+}) => {
+  const optionClass = (isActive: boolean) =>
+    `py-2 px-4 rounded-md font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+      isActive ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'
+    }`;
+
+  return (
+    <div className="w-full flex flex-wrap items-center justify-center gap-3 text-sm text-gray-300">
+      <div className="flex gap-1">
+        {TOOLS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => onToolChange(option.value)}
+            disabled={disabled}
+            className={optionClass(tool === option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        <button onClick={() => onModeChange('add')} disabled={disabled} className={optionClass(mode === 'add')}>
+          Add
+        </button>
+        <button onClick={() => onModeChange('erase')} disabled={disabled} className={optionClass(mode === 'erase')}>
+          Erase
+        </button>
+      </div>
+
+      {tool === 'brush' && (
+        <label className="flex items-center gap-2">
+          Size
+          <input
+            type="range"
+            min={4}
+            max={80}
+            value={brushSize}
+            onChange={(e) => onBrushSizeChange(Number(e.target.value))}
+            disabled={disabled}
+          />
+        </label>
+      )}
+
+      <button
+        onClick={onClearMask}
+        disabled={disabled || !hasMask}
+        className="py-2 px-4 bg-transparent border border-white/20 text-gray-200 rounded-md font-semibold hover:bg-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Clear Mask
+      </button>
+    </div>
+  );
+};
+
+export default ToolOptions;
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface VariantPickerProps {
+  /** What was generated, e.g. "Apply filter". */
+  label: string;
+  imageUrls: string[];
+  isLoading: boolean;
+  onPick: (index: number) => void;
+  onRegenerate: () => void;
+  onClose: () => void;
+}
+
+// Shows the variants of one generation side by side so one can be committed to history
+const VariantPicker: React.FC<VariantPickerProps> = ({ label, imageUrls, isLoading, onPick, onRegenerate, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-gray-700 rounded-xl w-full max-w-4xl max-h-[95vh] overflow-y-auto flex flex-col animate-fade-in">
+        <div className="flex items-center justify-between p-6 border-b border-gray-700">
+          <div>
+            <h2 className="text-2xl font-bold text-white">Pick a Variant</h2>
+            <p className="text-sm text-gray-400 truncate">{label}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        {imageUrls.length === 0 && (
+          <p className="p-12 text-center text-gray-400">
+            {isLoading ? 'Generating new variants...' : 'No variants were generated. Try regenerating.'}
+          </p>
+        )}
+        <div className="p-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {imageUrls.map((imageUrl, index) => (
+            <button
+              key={index}
+              onClick={() => onPick(index)}
+              disabled={isLoading}
+              className="group relative bg-gray-800 rounded-lg overflow-hidden border border-gray-700 hover:border-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <img src={imageUrl} alt={`Variant ${index + 1}`} className="w-full aspect-square object-contain" />
+              <span className="absolute bottom-2 left-1/2 -translate-x-1/2 px-3 py-1 rounded-full bg-black/70 text-sm text-white opacity-0 group-hover:opacity-100 transition-opacity">
+                Use variant {index + 1}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 bg-gray-800/50 flex items-center justify-between gap-3">
+          <p className="text-sm text-gray-400">Variants you don't pick are kept in the tray.</p>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-5 py-2 bg-white/10 text-gray-200 rounded-lg font-semibold hover:bg-white/20 transition-colors"
+            >
+              Keep None
+            </button>
+            <button
+              onClick={onRegenerate}
+              disabled={isLoading}
+              className="px-5 py-2 bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold rounded-lg transition-all duration-300 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {isLoading ? 'Generating...' : 'Regenerate'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { TrayVariant } from '../services/variants';
+
+interface VariantTrayProps {
+  variants: TrayVariant[];
+  disabled: boolean;
+  onUse: (variant: TrayVariant) => void;
+  onRemove: (id: string) => void;
+}
+
+// Generated variants that were not picked; any of them can still be used later in the session
+const VariantTray: React.FC<VariantTrayProps> = ({ variants, disabled, onUse, onRemove }) => {
+  return (
+    <aside className="w-full lg:w-48 flex-shrink-0 bg-gray-800/50 border border-gray-700 rounded-lg p-3 flex flex-col gap-3 animate-fade-in">
+      <h3 className="text-sm font-semibold text-gray-300">Unused Variants</h3>
+      <div className="flex lg:flex-col gap-3 overflow-x-auto lg:overflow-x-visible lg:max-h-[70vh] lg:overflow-y-auto">
+        {variants.map(variant => (
+          <div key={variant.id} className="group relative flex-shrink-0 w-28 lg:w-full">
+            <button
+              onClick={() => onUse(variant)}
+              disabled={disabled}
+              title={`Use this variant (${variant.label})`}
+              className="w-full bg-gray-800 rounded-md overflow-hidden border border-gray-700 hover:border-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <img src={variant.imageUrl} alt={variant.label} className="w-full aspect-square object-contain" />
+            </button>
+            <p className="text-xs text-gray-400 truncate mt-1">{variant.label}</p>
+            <button
+              onClick={() => onRemove(variant.id)}
+              className="absolute top-1 right-1 w-6 h-6 rounded-full bg-black/60 text-gray-300 text-sm opacity-0 group-hover:opacity-100 hover:bg-red-600 transition-opacity"
+              aria-label="Remove variant from the tray"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default VariantTray;
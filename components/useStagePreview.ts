@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { useState, useEffect, useRef } from 'react';
+import { forgetImage, loadImage } from '../services/compositionRenderer';
+
+// Large enough for a sharp stage preview on high-density screens
+export const PREVIEW_MAX_SIZE = 800;
+
+/**
+ * Decodes an image file for local processing, or returns null while it loads.
+ */
+export const useSourceImage = (file: File): HTMLImageElement | null => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    let cancelled = false;
+    setImage(null);
+    loadImage(url)
+      .then(img => { if (!cancelled) setImage(img); })
+      .catch(err => console.error(err));
+    return () => {
+      cancelled = true;
+      URL.revokeObjectURL(url);
+      forgetImage(url);
+    };
+  }, [file]);
+
+  return image;
+};
+
+/**
+ * Shows the result of `render` on the stage instead of the base image, re-rendering at most
+ * once per frame. Pass null for `render` to show the real image again; the preview is also
+ * removed when the component unmounts.
+ * @param render Draws the preview; should be memoized so it only changes with its inputs.
+ * @param onPreviewChange Receives the preview's object URL, or null.
+ */
+export const useStagePreview = (
+  render: (() => HTMLCanvasElement) | null,
+  onPreviewChange: (previewUrl: string | null) => void
+): void => {
+  const previewUrlRef = useRef<string | null>(null);
+  const onPreviewChangeRef = useRef(onPreviewChange);
+  onPreviewChangeRef.current = onPreviewChange;
+
+  const replacePreview = (previewUrl: string | null) => {
+    const previous = previewUrlRef.current;
+    previewUrlRef.current = previewUrl;
+    onPreviewChangeRef.current(previewUrl);
+    if (previous) {
+      URL.revokeObjectURL(previous);
+      forgetImage(previous);
+    }
+  };
+
+  useEffect(() => {
+    if (!render) {
+      replacePreview(null);
+      return;
+    }
+    let cancelled = false;
+    const frame = requestAnimationFrame(() => {
+      render().toBlob(blob => {
+        if (!cancelled && blob) replacePreview(URL.createObjectURL(blob));
+      });
+    });
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+    };
+  }, [render]);
+
+  useEffect(() => () => replacePreview(null), []);
+};
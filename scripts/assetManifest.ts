@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import type { AssetAnchor, AssetCategory, AssetEntry, CharacterAnchors } from '../types';
+import { CATEGORY_DEFAULTS } from '../services/assetDefaults';
+
+const VIRTUAL_MODULE_ID = 'virtual:asset-manifest';
+const RESOLVED_VIRTUAL_MODULE_ID = '\0' + VIRTUAL_MODULE_ID;
+export const MANIFEST_FILE_NAME = 'asset-manifest.json';
+
+// Each folder under public/assets holds one category
+const FOLDER_CATEGORIES: Record<string, AssetCategory> = {
+    backgrounds: 'backgrounds',
+    eyes: 'eyes',
+    hats: 'hats',
+    extras: 'accessories',
+    characters: 'characters',
+};
+
+const IMAGE_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg', '.webp', '.avif', '.gif', '.svg']);
+
+// Hand-written metadata for each file, keyed by its path relative to public/assets
+interface CatalogEntry {
+    name: string;
+    tags?: string[];
+    defaultSize?: AssetEntry['defaultSize'];
+    anchor?: AssetAnchor;
+    anchors?: CharacterAnchors;
+}
+
+export interface ManifestResult {
+    entries: AssetEntry[];
+    /** Catalog entries whose file does not exist. */
+    missing: string[];
+    /** Image files that have no catalog entry. */
+    orphaned: string[];
+}
+
+const toPosix = (filePath: string) => filePath.split(path.sep).join('/');
+
+const listImageFiles = (assetsDir: string): string[] =>
+    fs.readdirSync(assetsDir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory())
+        .flatMap(dir => fs.readdirSync(path.join(assetsDir, dir.name))
+            .filter(file => IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase()))
+            .map(file => `${dir.name}/${file}`));
+
+const createAssetId = (relativePath: string): string => {
+    const [folder, file] = relativePath.split('/');
+    const slug = path.basename(file, path.extname(file)).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `${folder}/${slug}`;
+};
+
+/**
+ * Builds the asset manifest by matching the files under `assetsDir` against the catalog.
+ * @param assetsDir The public/assets folder.
+ * @param catalogPath The JSON catalog with each asset's name, tags, size and anchor, plus the
+ *   anchor points of characters.
+ */
+export const generateAssetManifest = (assetsDir: string, catalogPath: string): ManifestResult => {
+    const catalog: Record<string, CatalogEntry> = JSON.parse(fs.readFileSync(catalogPath, 'utf-8'));
+    const files = new Set(listImageFiles(assetsDir).map(toPosix));
+
+    const missing = Object.keys(catalog).filter(relativePath => !files.has(relativePath));
+    const orphaned = [...files].filter(relativePath => !catalog[relativePath]);
+
+    const entries: AssetEntry[] = Object.entries(catalog)
+        .filter(([relativePath]) => files.has(relativePath))
+        .map(([relativePath, meta]) => {
+            const folder = relativePath.split('/')[0];
+            const category = FOLDER_CATEGORIES[folder];
+            if (!category) {
+                throw new Error(`Unknown asset folder "${folder}" for ${relativePath}.`);
+            }
+            const defaults = CATEGORY_DEFAULTS[category];
+            return {
+                id: createAssetId(relativePath),
+                name: meta.name,
+                category,
+                path: `/assets/${relativePath}`,
+                tags: meta.tags ?? [],
+                defaultSize: meta.defaultSize ?? defaults.defaultSize,
+                anchor: meta.anchor ?? defaults.anchor,
+                ...(meta.anchors && { anchors: meta.anchors }),
+            };
+        });
+
+    return { entries, missing, orphaned };
+};
+
+/**
+ * Exposes the manifest as `virtual:asset-manifest` and writes it to the build output.
+ * Builds fail when the catalog and public/assets disagree; the dev server only warns.
+ */
+export const assetManifestPlugin = (options: { assetsDir: string; catalogPath: string }): Plugin => {
+    let isBuild = false;
+    let entries: AssetEntry[] = [];
+
+    const load = () => {
+        const result = generateAssetManifest(options.assetsDir, options.catalogPath);
+        const problems = [
+            ...result.missing.map(file => `missing file for catalog entry: ${file}`),
+            ...result.orphaned.map(file => `file not listed in the catalog: ${file}`),
+        ];
+        if (problems.length > 0) {
+            const message = `Asset manifest check failed:\n  ${problems.join('\n  ')}`;
+            if (isBuild) throw new Error(message);
+            console.warn(message);
+        }
+        entries = result.entries;
+    };
+
+    return {
+        name: 'asset-manifest',
+        configResolved(config) {
+            isBuild = config.command === 'build';
+        },
+        buildStart() {
+            this.addWatchFile(options.catalogPath);
+            load();
+        },
+        resolveId(id) {
+            return id === VIRTUAL_MODULE_ID ? RESOLVED_VIRTUAL_MODULE_ID : null;
+        },
+        load(id) {
+            return id === RESOLVED_VIRTUAL_MODULE_ID ? `export default ${JSON.stringify(entries)};` : null;
+        },
+        generateBundle() {
+            this.emitFile({ type: 'asset', fileName: MANIFEST_FILE_NAME, source: JSON.stringify(entries, null, 2) });
+        },
+    };
+};
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, getCanvasContext } from './mask';
+
+// Slider values; 0 leaves the image unchanged
+export interface AdjustmentSettings {
+    exposure: number;
+    contrast: number;
+    saturation: number;
+    temperature: number;
+    tint: number;
+    vibrance: number;
+    sharpen: number;
+    vignette: number;
+}
+
+export type AdjustmentKey = keyof AdjustmentSettings;
+
+export const DEFAULT_ADJUSTMENTS: AdjustmentSettings = {
+    exposure: 0,
+    contrast: 0,
+    saturation: 0,
+    temperature: 0,
+    tint: 0,
+    vibrance: 0,
+    sharpen: 0,
+    vignette: 0,
+};
+
+export const ADJUSTMENT_CONTROLS: Array<{ key: AdjustmentKey; label: string; min: number; max: number }> = [
+    { key: 'exposure', label: 'Exposure', min: -100, max: 100 },
+    { key: 'contrast', label: 'Contrast', min: -100, max: 100 },
+    { key: 'saturation', label: 'Saturation', min: -100, max: 100 },
+    { key: 'vibrance', label: 'Vibrance', min: -100, max: 100 },
+    { key: 'temperature', label: 'Temperature', min: -100, max: 100 },
+    { key: 'tint', label: 'Tint', min: -100, max: 100 },
+    { key: 'sharpen', label: 'Sharpen', min: 0, max: 100 },
+    { key: 'vignette', label: 'Vignette', min: 0, max: 100 },
+];
+
+export const isIdentityAdjustment = (settings: AdjustmentSettings): boolean =>
+    ADJUSTMENT_CONTROLS.every(({ key }) => settings[key] === 0);
+
+export const areAdjustmentsEqual = (a: AdjustmentSettings, b: AdjustmentSettings): boolean =>
+    ADJUSTMENT_CONTROLS.every(({ key }) => a[key] === b[key]);
+
+/**
+ * Lists the non-zero settings, e.g. "Exposure +20, Vignette 40", for history labels.
+ */
+export const describeAdjustments = (settings: AdjustmentSettings): string =>
+    ADJUSTMENT_CONTROLS
+        .filter(({ key }) => settings[key] !== 0)
+        .map(({ key, label, min }) => `${label} ${min < 0 && settings[key] > 0 ? '+' : ''}${settings[key]}`)
+        .join(', ');
+
+const clampByte = (value: number): number => value < 0 ? 0 : value > 255 ? 255 : value;
+
+// Colour changes that only depend on the pixel itself, on 0..255 channels
+const adjustColours = (data: Uint8ClampedArray, settings: AdjustmentSettings) => {
+    const exposureGain = 2 ** (settings.exposure / 50);
+    const contrastFactor = 1 + settings.contrast / 100;
+    const saturationFactor = 1 + settings.saturation / 100;
+    const vibrance = settings.vibrance / 100;
+    // Warm shifts red up and blue down; positive tint moves away from green towards magenta
+    const redGain = 1 + settings.temperature * 0.002 + settings.tint * 0.001;
+    const greenGain = 1 - settings.tint * 0.002;
+    const blueGain = 1 - settings.temperature * 0.002 + settings.tint * 0.001;
+
+    for (let i = 0; i < data.length; i += 4) {
+        let r = data[i] * exposureGain * redGain;
+        let g = data[i + 1] * exposureGain * greenGain;
+        let b = data[i + 2] * exposureGain * blueGain;
+
+        r = (r - 128) * contrastFactor + 128;
+        g = (g - 128) * contrastFactor + 128;
+        b = (b - 128) * contrastFactor + 128;
+
+        // Vibrance boosts muted colours more than already saturated ones
+        const chroma = (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+        const colourFactor = saturationFactor * (1 + vibrance * (1 - Math.min(1, Math.max(0, chroma))));
+        const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        data[i] = clampByte(luma + (r - luma) * colourFactor);
+        data[i + 1] = clampByte(luma + (g - luma) * colourFactor);
+        data[i + 2] = clampByte(luma + (b - luma) * colourFactor);
+    }
+};
+
+// Unsharp mask against a 3×3 box blur
+const sharpen = (data: Uint8ClampedArray, width: number, height: number, amount: number) => {
+    const source = new Uint8ClampedArray(data);
+    const strength = amount / 100 * 1.5;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = (y * width + x) * 4;
+            for (let channel = 0; channel < 3; channel++) {
+                let sum = 0;
+                let count = 0;
+                for (let dy = -1; dy <= 1; dy++) {
+                    const row = y + dy;
+                    if (row < 0 || row >= height) continue;
+                    for (let dx = -1; dx <= 1; dx++) {
+                        const column = x + dx;
+                        if (column < 0 || column >= width) continue;
+                        sum += source[(row * width + column) * 4 + channel];
+                        count++;
+                    }
+                }
+                const value = source[index + channel];
+                data[index + channel] = clampByte(value + (value - sum / count) * strength);
+            }
+        }
+    }
+};
+
+// Darkens towards the corners, leaving the middle untouched
+const vignette = (data: Uint8ClampedArray, width: number, height: number, amount: number) => {
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const maxDistance = Math.hypot(centerX, centerY);
+    const strength = amount / 100;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const distance = Math.hypot(x + 0.5 - centerX, y + 0.5 - centerY) / maxDistance;
+            const t = Math.min(1, Math.max(0, (distance - 0.35) / 0.65));
+            const factor = 1 - strength * t * t * (3 - 2 * t);
+            const index = (y * width + x) * 4;
+            data[index] *= factor;
+            data[index + 1] *= factor;
+            data[index + 2] *= factor;
+        }
+    }
+};
+
+/**
+ * Applies the adjustments to an image. The result is deterministic, so the same settings
+ * always give the same pixels, and transparency is left as it was.
+ * @param image The image to adjust.
+ * @param settings The slider values.
+ * @param maxSize Optionally limits the longest side, for fast previews.
+ * @returns A canvas holding the adjusted image.
+ */
+export const applyAdjustments = (
+    image: HTMLImageElement,
+    settings: AdjustmentSettings,
+    maxSize: number = Infinity
+): HTMLCanvasElement => {
+    const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const canvas = createCanvas(width, height);
+    const ctx = getCanvasContext(canvas);
+    ctx.drawImage(image, 0, 0, width, height);
+    if (isIdentityAdjustment(settings)) return canvas;
+
+    const imageData = ctx.getImageData(0, 0, width, height);
+    adjustColours(imageData.data, settings);
+    if (settings.sharpen > 0) sharpen(imageData.data, width, height, settings.sharpen);
+    if (settings.vignette > 0) vignette(imageData.data, width, height, settings.vignette);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+};
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DEFAULT_GEMINI_MODEL } from './geminiProvider';
+
+// Where the API key is kept: across visits, or only until the tab is closed
+export type ApiKeyPersistence = 'local' | 'session';
+
+export interface ApiSettings {
+    apiKey: string;
+    model: string;
+    persistence: ApiKeyPersistence;
+}
+
+export const GEMINI_MODELS: Array<{ id: string; label: string }> = [
+    { id: DEFAULT_GEMINI_MODEL, label: 'Gemini 2.5 Flash Image (preview)' },
+    { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image' },
+];
+
+const API_KEY_KEY = 'zazu-editor:gemini-api-key';
+const MODEL_KEY = 'zazu-editor:gemini-model';
+
+// The key only ever lives in one of the two stores; the model is not sensitive and always persists
+const readItem = (storage: Storage, key: string): string | null => {
+    try {
+        return storage.getItem(key);
+    } catch (err) {
+        console.warn(`Could not read ${key}:`, err);
+        return null;
+    }
+};
+
+const writeItem = (storage: Storage, key: string, value: string | null) => {
+    try {
+        if (value === null) storage.removeItem(key);
+        else storage.setItem(key, value);
+    } catch (err) {
+        console.warn(`Could not save ${key}:`, err);
+    }
+};
+
+/**
+ * Reads the saved settings. A key kept for the session takes precedence over a remembered one.
+ */
+export const loadApiSettings = (): ApiSettings => {
+    const sessionKey = readItem(sessionStorage, API_KEY_KEY);
+    const localKey = readItem(localStorage, API_KEY_KEY);
+    return {
+        apiKey: sessionKey ?? localKey ?? '',
+        model: readItem(localStorage, MODEL_KEY) || DEFAULT_GEMINI_MODEL,
+        persistence: sessionKey !== null ? 'session' : 'local',
+    };
+};
+
+/**
+ * Saves the settings, moving the key to the chosen store and removing it from the other.
+ * An empty key clears it from both.
+ */
+export const saveApiSettings = ({ apiKey, model, persistence }: ApiSettings): void => {
+    const key = apiKey.trim() || null;
+    writeItem(localStorage, API_KEY_KEY, persistence === 'local' ? key : null);
+    writeItem(sessionStorage, API_KEY_KEY, persistence === 'session' ? key : null);
+    writeItem(localStorage, MODEL_KEY, model === DEFAULT_GEMINI_MODEL ? null : model);
+};
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import manifest from 'virtual:asset-manifest';
+import type { AssetCategory, AssetEntry } from '../types';
+
+// Every built-in asset, generated at build time from public/assets and assets.catalog.json
+export const ASSET_MANIFEST: AssetEntry[] = manifest;
+
+export const getAssetsByCategory = (category: AssetCategory): AssetEntry[] =>
+    ASSET_MANIFEST.filter(asset => asset.category === category);
+
+export const findAsset = (id: string): AssetEntry | undefined =>
+    ASSET_MANIFEST.find(asset => asset.id === id);
+
+/**
+ * Filters assets by a free-text query and a set of tags. Every word of the query has to
+ * appear in the asset's name, category or tags, and the asset must carry every tag.
+ */
+export const searchAssets = (assets: AssetEntry[], query: string, tags: string[] = []): AssetEntry[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    return assets.filter(asset => {
+        const haystack = [asset.name, asset.category, ...asset.tags].join(' ').toLowerCase();
+        return words.every(word => haystack.includes(word)) && tags.every(tag => asset.tags.includes(tag));
+    });
+};
+
+/**
+ * Lists the distinct tags used by the given assets, most common first.
+ */
+export const collectTags = (assets: AssetEntry[]): string[] => {
+    const counts = new Map<string, number>();
+    assets.forEach(asset => asset.tags.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return Array.from(counts.keys()).sort((a, b) => (counts.get(b)! - counts.get(a)!) || a.localeCompare(b));
+};
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AssetAnchor, AssetCategory, AssetEntry } from '../types';
+
+// Size and anchor used when an asset does not specify its own
+export const CATEGORY_DEFAULTS: Record<AssetCategory, { defaultSize: AssetEntry['defaultSize']; anchor: AssetAnchor }> = {
+    backgrounds: { defaultSize: { width: 400, height: 400 }, anchor: 'fill' },
+    eyes: { defaultSize: { width: 100, height: 100 }, anchor: 'eyes' },
+    hats: { defaultSize: { width: 100, height: 100 }, anchor: 'head' },
+    accessories: { defaultSize: { width: 100, height: 100 }, anchor: 'center' },
+    characters: { defaultSize: { width: 100, height: 100 }, anchor: 'center' },
+};
+
+export const ASSET_CATEGORY_LABELS: Record<AssetCategory, string> = {
+    backgrounds: 'Backgrounds',
+    eyes: 'Eyes & Glasses',
+    hats: 'Hats & Headwear',
+    accessories: 'Extras & Accessories',
+    characters: 'Characters',
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const FAVOURITES_KEY = 'zazu-editor:favourite-assets';
+const RECENTS_KEY = 'zazu-editor:recent-assets';
+export const MAX_RECENT_ASSETS = 12;
+
+// These are small UI preferences, so they live in localStorage rather than IndexedDB
+const readIds = (key: string): string[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(key) ?? '[]');
+        return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+    } catch (err) {
+        console.warn(`Could not read ${key}:`, err);
+        return [];
+    }
+};
+
+const writeIds = (key: string, ids: string[]) => {
+    try {
+        localStorage.setItem(key, JSON.stringify(ids));
+    } catch (err) {
+        console.warn(`Could not save ${key}:`, err);
+    }
+};
+
+export const loadFavouriteAssets = (): string[] => readIds(FAVOURITES_KEY);
+
+/**
+ * Adds or removes an asset from the favourites.
+ * @returns The updated list of favourite asset ids.
+ */
+export const toggleFavouriteAsset = (id: string): string[] => {
+    const favourites = loadFavouriteAssets();
+    const updated = favourites.includes(id) ? favourites.filter(favourite => favourite !== id) : [...favourites, id];
+    writeIds(FAVOURITES_KEY, updated);
+    return updated;
+};
+
+export const loadRecentAssets = (): string[] => readIds(RECENTS_KEY);
+
+/**
+ * Moves an asset to the front of the recently used list, keeping at most MAX_RECENT_ASSETS.
+ * @returns The updated list, most recent first.
+ */
+export const recordRecentAsset = (id: string): string[] => {
+    const updated = [id, ...loadRecentAssets().filter(recent => recent !== id)].slice(0, MAX_RECENT_ASSETS);
+    writeIds(RECENTS_KEY, updated);
+    return updated;
+};
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { DrawingLayer, Overlay, TextLayer } from '../types';
+import { resolveAssetUrl } from './customAssets';
+import { drawTextLayer, loadTextLayerFonts } from './textLayers';
+import { drawDrawingLayer } from './drawingLayers';
+
+// The stage the composition is laid out on, in CSS pixels
+export const STAGE_SIZE = 400;
+// The base image is drawn bottom-centered in a square of this size
+export const BASE_IMAGE_SIZE = 380;
+
+export const BASE_LAYER_ID = 'base-image';
+// Backgrounds (1) sit below the base image, everything else (500+) above it
+export const BASE_LAYER_Z_INDEX = 100;
+
+// How a layer's image is fitted into its box, mirroring CSS object-fit
+export type LayerFit = 'cover' | 'contain' | 'fill';
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface CompositionLayer extends Rect {
+    id: string;
+    name: string;
+    src: string;
+    rotation: number;
+    opacity: number;
+    zIndex: number;
+    fit: LayerFit;
+    flipX: boolean;
+    flipY: boolean;
+    /** Set for text layers, which are drawn from this instead of an image. */
+    text?: TextLayer;
+    /** Set for drawing layers, which are drawn from this instead of an image. */
+    drawing?: DrawingLayer;
+}
+
+export interface FailedAsset {
+    id: string;
+    name: string;
+    src: string;
+}
+
+export interface RenderOptions {
+    /** Output pixels per stage pixel. */
+    scale: number;
+    /** Fill colour drawn before the layers, or null to keep the canvas transparent. */
+    background: string | null;
+}
+
+export interface RenderResult {
+    failed: FailedAsset[];
+}
+
+export const BASE_IMAGE_BOX: Rect = {
+    x: (STAGE_SIZE - BASE_IMAGE_SIZE) / 2,
+    y: STAGE_SIZE - BASE_IMAGE_SIZE,
+    width: BASE_IMAGE_SIZE,
+    height: BASE_IMAGE_SIZE,
+};
+
+/**
+ * Sorts items bottom-to-top by zIndex; ties keep their original order.
+ */
+export const sortByStackingOrder = <T extends { zIndex: number }>(items: T[]): T[] =>
+    items
+        .map((item, order) => ({ item, order }))
+        .sort((a, b) => a.item.zIndex - b.item.zIndex || a.order - b.order)
+        .map(entry => entry.item);
+
+const fitForOverlay = (overlay: Overlay): LayerFit => overlay.category === 'backgrounds' ? 'cover' : 'contain';
+
+/**
+ * Builds the ordered list of visible layers that make up the composition.
+ * Layers are sorted by zIndex; ties keep their insertion order.
+ * @param baseImageSrc URL of the base image, or null if there is none.
+ * @param overlays The asset overlays in stage coordinates.
+ */
+export const buildCompositionLayers = (baseImageSrc: string | null, overlays: Overlay[]): CompositionLayer[] => {
+    const layers: CompositionLayer[] = overlays.filter(overlay => !overlay.hidden).map(overlay => ({
+        id: overlay.id,
+        name: overlay.name,
+        src: resolveAssetUrl(overlay.src),
+        x: overlay.x,
+        y: overlay.y,
+        width: overlay.width,
+        height: overlay.height,
+        rotation: overlay.rotation,
+        opacity: overlay.opacity,
+        zIndex: overlay.zIndex,
+        fit: fitForOverlay(overlay),
+        flipX: overlay.flipX === true,
+        flipY: overlay.flipY === true,
+        ...(overlay.text && { text: overlay.text }),
+        ...(overlay.drawing && { drawing: overlay.drawing }),
+    }));
+
+    if (baseImageSrc) {
+        layers.push({
+            id: BASE_LAYER_ID,
+            name: 'Base image',
+            src: baseImageSrc,
+            ...BASE_IMAGE_BOX,
+            rotation: 0,
+            opacity: 1,
+            zIndex: BASE_LAYER_Z_INDEX,
+            fit: 'contain',
+            flipX: false,
+            flipY: false,
+        });
+    }
+
+    return sortByStackingOrder(layers);
+};
+
+/**
+ * Computes where an image of the given size is drawn inside `box` for a fit mode.
+ * For 'cover' the result overflows the box and must be clipped to it.
+ */
+export const computeFitRect = (imageWidth: number, imageHeight: number, box: Rect, fit: LayerFit): Rect => {
+    if (fit === 'fill' || imageWidth === 0 || imageHeight === 0) return { ...box };
+
+    const scale = fit === 'cover'
+        ? Math.max(box.width / imageWidth, box.height / imageHeight)
+        : Math.min(box.width / imageWidth, box.height / imageHeight);
+    const width = imageWidth * scale;
+    const height = imageHeight * scale;
+    return {
+        x: box.x + (box.width - width) / 2,
+        y: box.y + (box.height - height) / 2,
+        width,
+        height,
+    };
+};
+
+const MAX_CACHED_IMAGES = 64;
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+/**
+ * Loads and decodes an image, sharing the result between the preview and exports.
+ * Failed loads are not cached so they can be retried.
+ */
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    const cached = imageCache.get(src);
+    if (cached) return cached;
+
+    const promise = new Promise<HTMLImageElement>((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = 'anonymous';
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${src}`));
+        img.src = src;
+    });
+    promise.catch(() => imageCache.delete(src));
+
+    imageCache.set(src, promise);
+    if (imageCache.size > MAX_CACHED_IMAGES) {
+        const oldest = imageCache.keys().next().value;
+        if (oldest !== undefined) imageCache.delete(oldest);
+    }
+    return promise;
+};
+
+/**
+ * Drops an image from the cache, e.g. a short-lived preview whose object URL is being revoked.
+ */
+export const forgetImage = (src: string): void => {
+    imageCache.delete(src);
+};
+
+// `img` is null for text and drawing layers
+const drawLayer = (ctx: CanvasRenderingContext2D, layer: CompositionLayer, img: HTMLImageElement | null) => {
+    const centerX = layer.x + layer.width / 2;
+    const centerY = layer.y + layer.height / 2;
+
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    // Rotate, then mirror, around the box centre; mirroring maps the box onto itself
+    // so the fit rect and clip below stay valid
+    if (layer.rotation !== 0 || layer.flipX || layer.flipY) {
+        ctx.translate(centerX, centerY);
+        ctx.rotate((layer.rotation * Math.PI) / 180);
+        ctx.scale(layer.flipX ? -1 : 1, layer.flipY ? -1 : 1);
+        ctx.translate(-centerX, -centerY);
+    }
+    if (layer.fit === 'cover') {
+        ctx.beginPath();
+        ctx.rect(layer.x, layer.y, layer.width, layer.height);
+        ctx.clip();
+    }
+    if (layer.text) {
+        drawTextLayer(ctx, layer.text, layer);
+    } else if (layer.drawing) {
+        drawDrawingLayer(ctx, layer.drawing, layer);
+    } else if (img) {
+        const target = computeFitRect(img.naturalWidth, img.naturalHeight, layer, layer.fit);
+        ctx.drawImage(img, target.x, target.y, target.width, target.height);
+    }
+    ctx.restore();
+};
+
+/**
+ * Draws the composition onto a canvas. This is the single renderer used by both the
+ * on-screen preview and exports, so what is seen is exactly what gets exported.
+ * All images and text layer fonts are loaded before anything is drawn; layers whose image fails to load
+ * are reported in the result rather than silently skipped.
+ * @param ctx A context whose canvas is STAGE_SIZE × scale pixels.
+ * @param layers The ordered layers from buildCompositionLayers.
+ * @param options Output scale and background.
+ */
+export const renderComposition = async (
+    ctx: CanvasRenderingContext2D,
+    layers: CompositionLayer[],
+    options: RenderOptions
+): Promise<RenderResult> => {
+    const [loaded] = await Promise.all([
+        Promise.all(layers.map(layer => layer.text || layer.drawing ? null : loadImage(layer.src).catch(() => null))),
+        loadTextLayerFonts(layers.flatMap(layer => layer.text ? [layer.text] : [])),
+    ]);
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    if (options.background) {
+        ctx.fillStyle = options.background;
+        ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    // Lay out in stage coordinates; the transform maps them to output pixels
+    ctx.scale(options.scale, options.scale);
+
+    const failed: FailedAsset[] = [];
+    layers.forEach((layer, index) => {
+        const img = loaded[index];
+        if (img || layer.text || layer.drawing) {
+            drawLayer(ctx, layer, img);
+        } else {
+            failed.push({ id: layer.id, name: layer.name, src: layer.src });
+        }
+    });
+    ctx.restore();
+
+    if (failed.length > 0) {
+        console.warn('Some composition layers failed to load:', failed);
+    }
+    return { failed };
+};
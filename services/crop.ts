@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Overlay } from '../types';
+import type { OverlayChange } from './editorHistory';
+import { BASE_IMAGE_BOX, Rect, computeFitRect } from './compositionRenderer';
+import { createCanvas, getCanvasContext } from './mask';
+
+export const MAX_OUTPUT_SIZE = 8192;
+
+// `aspect` is width / height; undefined means freeform
+export const CROP_ASPECT_PRESETS: Array<{ label: string; aspect?: number }> = [
+    { label: 'Free' },
+    { label: '1:1', aspect: 1 },
+    { label: '4:5', aspect: 4 / 5 },
+    { label: '16:9', aspect: 16 / 9 },
+    { label: '9:16', aspect: 9 / 16 },
+];
+
+/**
+ * Cuts `crop` out of the image, optionally scaling the result.
+ * @param image The decoded image to crop.
+ * @param crop The area to keep, in image pixels.
+ * @param outputSize The size of the result; defaults to the crop's own size.
+ * @returns A canvas holding the cropped image.
+ */
+export const cropImage = (
+    image: HTMLImageElement,
+    crop: Rect,
+    outputSize: { width: number; height: number } = crop
+): HTMLCanvasElement => {
+    const width = Math.max(1, Math.min(MAX_OUTPUT_SIZE, Math.round(outputSize.width)));
+    const height = Math.max(1, Math.min(MAX_OUTPUT_SIZE, Math.round(outputSize.height)));
+    const canvas = createCanvas(width, height);
+    const ctx = getCanvasContext(canvas);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+    return canvas;
+};
+
+/**
+ * Works out where overlays must move so they stay on the same part of the picture once the
+ * base image is cropped and re-fitted to the stage. Backgrounds fill the stage and stay put.
+ * @param overlays The current overlays, in stage coordinates.
+ * @param imageSize The natural size of the image before cropping.
+ * @param crop The area being kept, in image pixels.
+ * @returns One change per overlay that moves.
+ */
+export const remapOverlaysForCrop = (
+    overlays: Overlay[],
+    imageSize: { width: number; height: number },
+    crop: Rect
+): OverlayChange[] => {
+    const before = computeFitRect(imageSize.width, imageSize.height, BASE_IMAGE_BOX, 'contain');
+    const after = computeFitRect(crop.width, crop.height, BASE_IMAGE_BOX, 'contain');
+    const scaleBefore = before.width / imageSize.width;
+    const scaleAfter = after.width / crop.width;
+    const ratio = scaleAfter / scaleBefore;
+
+    return overlays
+        .filter(overlay => overlay.category !== 'backgrounds')
+        .map(overlay => {
+            // Follow the overlay's centre so rotated overlays keep their place too
+            const imageX = (overlay.x + overlay.width / 2 - before.x) / scaleBefore - crop.x;
+            const imageY = (overlay.y + overlay.height / 2 - before.y) / scaleBefore - crop.y;
+            const width = overlay.width * ratio;
+            const height = overlay.height * ratio;
+            return {
+                id: overlay.id,
+                before: { x: overlay.x, y: overlay.y, width: overlay.width, height: overlay.height },
+                after: {
+                    x: after.x + imageX * scaleAfter - width / 2,
+                    y: after.y + imageY * scaleAfter - height / 2,
+                    width,
+                    height,
+                },
+            };
+        });
+};
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AssetCategory, AssetEntry } from '../types';
+import { runRequest, CUSTOM_ASSETS_STORE } from './db';
+import { CATEGORY_DEFAULTS } from './assetDefaults';
+
+// Overlays made from uploaded assets store this reference as their `src`; it stays valid
+// across reloads, unlike the object URL it resolves to
+const CUSTOM_ASSET_SCHEME = 'custom-asset:';
+
+export const ACCEPTED_CUSTOM_ASSET_TYPES = ['image/png', 'image/webp'];
+export const MAX_CUSTOM_ASSET_BYTES = 10 * 1024 * 1024;
+
+// An image the user uploaded into their personal library
+export interface CustomAsset {
+    id: string;
+    name: string;
+    category: AssetCategory;
+    tags: string[];
+    file: File;
+    createdAt: number;
+}
+
+export interface CustomAssetDetails {
+    name: string;
+    category: AssetCategory;
+    tags: string[];
+}
+
+const objectUrls = new Map<string, string>();
+
+export const customAssetSrc = (id: string): string => `${CUSTOM_ASSET_SCHEME}${id}`;
+
+export const isCustomAssetSrc = (src: string): boolean => src.startsWith(CUSTOM_ASSET_SCHEME);
+
+export const customAssetIdFromSrc = (src: string): string | null =>
+    isCustomAssetSrc(src) ? src.slice(CUSTOM_ASSET_SCHEME.length) : null;
+
+/**
+ * Makes custom assets displayable by creating object URLs for them.
+ */
+export const registerCustomAssets = (assets: CustomAsset[]) => {
+    assets.forEach(asset => {
+        if (!objectUrls.has(asset.id)) objectUrls.set(asset.id, URL.createObjectURL(asset.file));
+    });
+};
+
+const unregisterCustomAsset = (id: string) => {
+    const url = objectUrls.get(id);
+    if (url) URL.revokeObjectURL(url);
+    objectUrls.delete(id);
+};
+
+/**
+ * Turns an overlay `src` into a URL the browser can load. Built-in asset paths and data URLs
+ * are returned unchanged; custom asset references resolve once their asset is registered.
+ */
+export const resolveAssetUrl = (src: string): string => {
+    const id = customAssetIdFromSrc(src);
+    return id ? objectUrls.get(id) ?? src : src;
+};
+
+/**
+ * Describes a custom asset the same way as a built-in manifest entry.
+ */
+export const toAssetEntry = (asset: CustomAsset): AssetEntry => ({
+    id: asset.id,
+    name: asset.name,
+    category: asset.category,
+    path: customAssetSrc(asset.id),
+    tags: asset.tags,
+    ...CATEGORY_DEFAULTS[asset.category],
+});
+
+/**
+ * Validates an uploaded file and wraps it as a new custom asset.
+ * @throws If the file is not a PNG/WebP image or is too large.
+ */
+export const createCustomAsset = (file: File, details: CustomAssetDetails): CustomAsset => {
+    if (!ACCEPTED_CUSTOM_ASSET_TYPES.includes(file.type)) {
+        throw new Error('Only PNG and WebP images can be uploaded as assets.');
+    }
+    if (file.size > MAX_CUSTOM_ASSET_BYTES) {
+        throw new Error(`"${file.name}" is larger than ${MAX_CUSTOM_ASSET_BYTES / (1024 * 1024)} MB.`);
+    }
+    return {
+        id: `custom/${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+        name: details.name.trim() || file.name.replace(/\.[^.]+$/, ''),
+        category: details.category,
+        tags: details.tags.map(tag => tag.trim().toLowerCase()).filter(Boolean),
+        file,
+        createdAt: Date.now(),
+    };
+};
+
+/**
+ * Lists the user's uploaded assets, newest first.
+ */
+export const listCustomAssets = async (): Promise<CustomAsset[]> => {
+    const assets = await runRequest<CustomAsset[]>(CUSTOM_ASSETS_STORE, 'readonly', store => store.getAll());
+    return assets.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Stores a custom asset in the library and makes it displayable.
+ */
+export const saveCustomAsset = async (asset: CustomAsset): Promise<void> => {
+    await runRequest(CUSTOM_ASSETS_STORE, 'readwrite', store => store.put(asset));
+    registerCustomAssets([asset]);
+};
+
+export const deleteCustomAsset = async (id: string): Promise<void> => {
+    await runRequest(CUSTOM_ASSETS_STORE, 'readwrite', store => store.delete(id));
+    unregisterCustomAsset(id);
+};
@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, createMask, getCanvasContext, canvasToFile } from './mask';
+
+// Detection runs on a downscaled copy and the mask is scaled back up, which also softens its edges
+const MAX_DETECTION_SIZE = 512;
+const ALPHA_THRESHOLD = 16;
+// Share of border pixels that must be transparent for the image to count as already cut out
+const TRANSPARENT_BORDER_RATIO = 0.5;
+
+export const DEFAULT_CUTOUT_TOLERANCE = 48;
+
+const drawDownscaled = (image: HTMLImageElement): ImageData => {
+    const scale = Math.min(1, MAX_DETECTION_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = createCanvas(
+        Math.max(1, Math.round(image.naturalWidth * scale)),
+        Math.max(1, Math.round(image.naturalHeight * scale))
+    );
+    const ctx = getCanvasContext(canvas);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+const borderIndices = (width: number, height: number): number[] => {
+    const indices: number[] = [];
+    for (let x = 0; x < width; x++) {
+        indices.push(x, (height - 1) * width + x);
+    }
+    for (let y = 1; y < height - 1; y++) {
+        indices.push(y * width, y * width + width - 1);
+    }
+    return indices;
+};
+
+/**
+ * Finds the subject of a photo without any network calls. Images that already have a transparent
+ * background keep their alpha; otherwise the background is flood-filled in from the image border,
+ * spreading through pixels within `tolerance` of the average border colour (a chroma key that
+ * only removes background connected to the edges, so similar colours inside the subject survive).
+ * @param image The photo to cut out.
+ * @param tolerance Maximum RGB distance from the background colour, 0–255.
+ * @returns A mask the size of the image that selects the subject.
+ */
+export const detectSubjectMask = (image: HTMLImageElement, tolerance: number = DEFAULT_CUTOUT_TOLERANCE): HTMLCanvasElement => {
+    const { data, width, height } = drawDownscaled(image);
+    const pixelCount = width * height;
+    const border = borderIndices(width, height);
+    const subject = new Uint8ClampedArray(pixelCount).fill(255);
+
+    const transparentBorder = border.filter(index => data[index * 4 + 3] < ALPHA_THRESHOLD).length;
+    if (transparentBorder / border.length >= TRANSPARENT_BORDER_RATIO) {
+        for (let i = 0; i < pixelCount; i++) subject[i] = data[i * 4 + 3];
+    } else {
+        let r = 0, g = 0, b = 0;
+        border.forEach(index => {
+            r += data[index * 4];
+            g += data[index * 4 + 1];
+            b += data[index * 4 + 2];
+        });
+        r /= border.length;
+        g /= border.length;
+        b /= border.length;
+
+        const isBackground = (index: number) => {
+            const offset = index * 4;
+            return Math.hypot(data[offset] - r, data[offset + 1] - g, data[offset + 2] - b) <= tolerance;
+        };
+
+        const queue = new Int32Array(pixelCount);
+        let head = 0, tail = 0;
+        border.forEach(index => {
+            if (subject[index] !== 0 && isBackground(index)) {
+                subject[index] = 0;
+                queue[tail++] = index;
+            }
+        });
+        while (head < tail) {
+            const index = queue[head++];
+            const x = index % width;
+            const neighbours = [
+                x > 0 ? index - 1 : -1,
+                x < width - 1 ? index + 1 : -1,
+                index - width,
+                index + width,
+            ];
+            neighbours.forEach(next => {
+                if (next < 0 || next >= pixelCount || subject[next] === 0 || !isBackground(next)) return;
+                subject[next] = 0;
+                queue[tail++] = next;
+            });
+        }
+    }
+
+    const small = createMask(width, height);
+    const smallCtx = getCanvasContext(small);
+    const maskData = smallCtx.createImageData(width, height);
+    for (let i = 0; i < pixelCount; i++) {
+        maskData.data[i * 4] = 255;
+        maskData.data[i * 4 + 1] = 255;
+        maskData.data[i * 4 + 2] = 255;
+        maskData.data[i * 4 + 3] = subject[i];
+    }
+    smallCtx.putImageData(maskData, 0, 0);
+
+    const mask = createMask(image.naturalWidth, image.naturalHeight);
+    const ctx = getCanvasContext(mask);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(small, 0, 0, mask.width, mask.height);
+    return mask;
+};
+
+/**
+ * Draws `image` with everything outside `mask` made transparent.
+ */
+export const renderCutout = (image: CanvasImageSource, mask: HTMLCanvasElement): HTMLCanvasElement => {
+    const canvas = createCanvas(mask.width, mask.height);
+    const ctx = getCanvasContext(canvas);
+    ctx.drawImage(image, 0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(mask, 0, 0);
+    return canvas;
+};
+
+/**
+ * Produces the cut-out subject as a transparent PNG.
+ * @param image The photo being cut out.
+ * @param mask A mask the size of the image that selects the subject.
+ */
+export const createCutoutFile = (image: HTMLImageElement, mask: HTMLCanvasElement): Promise<File> =>
+    canvasToFile(renderCutout(image, mask), `cutout-${Date.now()}.png`);
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'zazu-editor';
+const DB_VERSION = 3;
+
+export const SESSIONS_STORE = 'sessions';
+export const CUSTOM_ASSETS_STORE = 'customAssets';
+export const CUSTOM_LUTS_STORE = 'customLuts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Creates or migrates the object stores; each version step only adds what it introduced
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+    if (oldVersion < 1) {
+        const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        sessions.createIndex('updatedAt', 'updatedAt');
+    }
+    if (oldVersion < 2) {
+        db.createObjectStore(CUSTOM_ASSETS_STORE, { keyPath: 'id' });
+    }
+    if (oldVersion < 3) {
+        db.createObjectStore(CUSTOM_LUTS_STORE, { keyPath: 'id' });
+    }
+};
+
+/**
+ * Opens (and upgrades if needed) the editor's IndexedDB database.
+ * The connection is shared for the lifetime of the page.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser.'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later call to retry if opening failed
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+/**
+ * Runs a single request against an object store and resolves with its result.
+ * @param storeName The object store to use.
+ * @param mode The transaction mode.
+ * @param makeRequest Builds the request from the store.
+ */
+export const runRequest = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise<T>((resolve, reject) => {
+        const transaction = db.transaction(storeName, mode);
+        const request = makeRequest(transaction.objectStore(storeName));
+        let result: T;
+        request.onsuccess = () => { result = request.result; };
+        transaction.oncomplete = () => resolve(result);
+        transaction.onerror = () => reject(transaction.error ?? request.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    });
+};
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { DrawingLayer, DrawingPoint, DrawingStroke, DrawingTool, Overlay } from '../types';
+import type { Rect } from './compositionRenderer';
+import { createCanvas, getCanvasContext } from './mask';
+import { isColour, isFiniteNumber, isRecord } from './typeGuards';
+
+// Drawing layers have no image; this marks their `src` so image code can tell them apart
+export const DRAWING_LAYER_SRC = 'drawing-layer:';
+export const DRAWING_LAYER_CATEGORY = 'drawing';
+
+export const DRAWING_TOOLS: Array<{ value: DrawingTool; label: string }> = [
+    { value: 'pen', label: 'Pen' },
+    { value: 'marker', label: 'Marker' },
+    { value: 'highlighter', label: 'Highlighter' },
+    { value: 'eraser', label: 'Eraser' },
+];
+
+const HIGHLIGHTER_ALPHA = 0.35;
+// Keeps exports of huge drawings within what browsers can allocate
+const MAX_DRAWING_CANVAS_SIZE = 8192;
+
+export const isDrawingOverlay = (overlay: Overlay): overlay is Overlay & { drawing: DrawingLayer } => !!overlay.drawing;
+
+/**
+ * Reads the pressure of a pointer event. Mice and pens that don't report pressure
+ * get 0.5, which draws the pen at exactly its set width.
+ */
+export const pointerPressure = (e: { pointerType: string; pressure: number }): number =>
+    e.pointerType === 'mouse' || !(e.pressure > 0) ? 0.5 : Math.min(1, e.pressure);
+
+// How much the pen's width is scaled at a given pressure: 0.25× at none, 1× at 0.5, 1.75× at full
+const penWidthScale = (pressure: number) => 0.25 + pressure * 1.5;
+
+// A smooth curve through the points, passing through the midpoints between them
+const tracePath = (ctx: CanvasRenderingContext2D, points: DrawingPoint[]) => {
+    ctx.beginPath();
+    ctx.moveTo(points[0][0], points[0][1]);
+    for (let i = 1; i < points.length - 1; i++) {
+        const [x, y] = points[i];
+        const [nextX, nextY] = points[i + 1];
+        ctx.quadraticCurveTo(x, y, (x + nextX) / 2, (y + nextY) / 2);
+    }
+    const [lastX, lastY] = points[points.length - 1];
+    ctx.lineTo(lastX, lastY);
+};
+
+/**
+ * Draws one stroke in the context's current coordinates. Erasers clear what is already
+ * drawn, so they should be drawn onto the drawing's own canvas.
+ */
+export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: DrawingStroke): void => {
+    const { points } = stroke;
+    if (points.length === 0) return;
+
+    ctx.save();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = stroke.color;
+    ctx.fillStyle = stroke.color;
+    if (stroke.tool === 'eraser') ctx.globalCompositeOperation = 'destination-out';
+    if (stroke.tool === 'highlighter') ctx.globalAlpha *= HIGHLIGHTER_ALPHA;
+
+    if (points.length === 1) {
+        const [x, y, pressure] = points[0];
+        const width = stroke.tool === 'pen' ? stroke.width * penWidthScale(pressure) : stroke.width;
+        ctx.beginPath();
+        ctx.arc(x, y, width / 2, 0, Math.PI * 2);
+        ctx.fill();
+    } else if (stroke.tool === 'pen') {
+        // Each segment is as wide as the pressure along it; the pen is opaque, so the overlaps don't show
+        for (let i = 1; i < points.length; i++) {
+            const [x0, y0, p0] = points[i - 1];
+            const [x1, y1, p1] = points[i];
+            ctx.lineWidth = stroke.width * penWidthScale((p0 + p1) / 2);
+            ctx.beginPath();
+            ctx.moveTo(x0, y0);
+            ctx.lineTo(x1, y1);
+            ctx.stroke();
+        }
+    } else {
+        // One path, so translucent highlighter strokes don't darken where they cross themselves
+        ctx.lineWidth = stroke.width;
+        tracePath(ctx, points);
+        ctx.stroke();
+    }
+    ctx.restore();
+};
+
+/**
+ * Draws a drawing layer stretched onto `box`. The strokes are rendered onto a canvas of
+ * their own at the output resolution, so erasers only clear this layer and the layer's
+ * opacity applies to it as a whole. The caller sets up opacity, rotation and mirroring.
+ * @param ctx The context to draw on.
+ * @param drawing The drawing layer.
+ * @param box Where to draw it, in the context's current coordinates.
+ */
+export const drawDrawingLayer = (ctx: CanvasRenderingContext2D, drawing: DrawingLayer, box: Rect): void => {
+    if (drawing.strokes.length === 0 || !(box.width > 0) || !(box.height > 0)) return;
+
+    const transform = ctx.getTransform();
+    const outputScale = Math.hypot(transform.a, transform.b);
+    const width = Math.max(1, Math.min(MAX_DRAWING_CANVAS_SIZE, Math.ceil(box.width * outputScale)));
+    const height = Math.max(1, Math.min(MAX_DRAWING_CANVAS_SIZE, Math.ceil(box.height * outputScale)));
+    const canvas = createCanvas(width, height);
+    const drawingCtx = getCanvasContext(canvas);
+    drawingCtx.scale(width / drawing.width, height / drawing.height);
+    drawing.strokes.forEach(stroke => drawStroke(drawingCtx, stroke));
+
+    ctx.drawImage(canvas, box.x, box.y, box.width, box.height);
+};
+
+/**
+ * The area a stroke covers, including its width.
+ */
+export const strokeBounds = (stroke: DrawingStroke): Rect => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const [x, y] of stroke.points) {
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+    }
+    // The pen can be up to 1.75× its width at full pressure
+    const reach = stroke.width * (stroke.tool === 'pen' ? penWidthScale(1) : 1) / 2;
+    return { x: minX - reach, y: minY - reach, width: maxX - minX + reach * 2, height: maxY - minY + reach * 2 };
+};
+
+const roundCoordinate = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Maps a point from the drawing's own coordinates to the stage, following the
+ * overlay's position, size, rotation and mirroring.
+ */
+export const drawingToStagePoint = (overlay: Overlay & { drawing: DrawingLayer }, x: number, y: number): { x: number; y: number } => {
+    const angle = overlay.rotation * Math.PI / 180;
+    const localX = (x / overlay.drawing.width - 0.5) * overlay.width * (overlay.flipX ? -1 : 1);
+    const localY = (y / overlay.drawing.height - 0.5) * overlay.height * (overlay.flipY ? -1 : 1);
+    return {
+        x: overlay.x + overlay.width / 2 + localX * Math.cos(angle) - localY * Math.sin(angle),
+        y: overlay.y + overlay.height / 2 + localX * Math.sin(angle) + localY * Math.cos(angle),
+    };
+};
+
+/**
+ * Converts a stroke drawn in stage coordinates into the drawing's own coordinates,
+ * undoing the overlay's position, size, rotation and mirroring.
+ */
+export const toDrawingStroke = (overlay: Overlay & { drawing: DrawingLayer }, stroke: DrawingStroke): DrawingStroke => {
+    const angle = -overlay.rotation * Math.PI / 180;
+    const centerX = overlay.x + overlay.width / 2;
+    const centerY = overlay.y + overlay.height / 2;
+    const scaleX = overlay.drawing.width / overlay.width;
+    const scaleY = overlay.drawing.height / overlay.height;
+    return {
+        ...stroke,
+        width: stroke.width * Math.sqrt(scaleX * scaleY),
+        points: stroke.points.map(([x, y, pressure]): DrawingPoint => {
+            const dx = x - centerX;
+            const dy = y - centerY;
+            const unrotatedX = (dx * Math.cos(angle) - dy * Math.sin(angle)) * (overlay.flipX ? -1 : 1);
+            const unrotatedY = (dx * Math.sin(angle) + dy * Math.cos(angle)) * (overlay.flipY ? -1 : 1);
+            return [
+                roundCoordinate((unrotatedX + overlay.width / 2) * scaleX),
+                roundCoordinate((unrotatedY + overlay.height / 2) * scaleY),
+                pressure,
+            ];
+        }),
+    };
+};
+
+/**
+ * Moves every point of the strokes by the given offset.
+ */
+export const offsetStrokes = (strokes: DrawingStroke[], dx: number, dy: number): DrawingStroke[] =>
+    strokes.map(stroke => ({
+        ...stroke,
+        points: stroke.points.map(([x, y, pressure]): DrawingPoint => [roundCoordinate(x + dx), roundCoordinate(y + dy), pressure]),
+    }));
+
+const isDrawingTool = (value: unknown): value is DrawingTool => DRAWING_TOOLS.some(tool => tool.value === value);
+const isDrawingPoint = (value: unknown): value is DrawingPoint =>
+    Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+const isStroke = (stroke: DrawingStroke | null): stroke is DrawingStroke => !!stroke;
+
+const normalizeStroke = (raw: unknown): DrawingStroke | null => {
+    if (!isRecord(raw) || !isDrawingTool(raw.tool) || !Array.isArray(raw.points)) return null;
+    const points = raw.points.filter(isDrawingPoint);
+    if (points.length === 0) return null;
+    return {
+        tool: raw.tool,
+        color: isColour(raw.color) ? raw.color : '#000000',
+        width: isFiniteNumber(raw.width) && raw.width > 0 ? raw.width : 1,
+        points,
+    };
+};
+
+/**
+ * Reads a drawing layer from untrusted data such as a project file, dropping strokes
+ * that are invalid.
+ * @returns The drawing layer, or undefined if `raw` isn't one.
+ */
+export const normalizeDrawingLayer = (raw: unknown): DrawingLayer | undefined => {
+    if (!isRecord(raw) || !Array.isArray(raw.strokes)) return undefined;
+    const { width, height } = raw;
+    if (!isFiniteNumber(width) || !isFiniteNumber(height) || width <= 0 || height <= 0) return undefined;
+    return {
+        width,
+        height,
+        strokes: raw.strokes.map(normalizeStroke).filter(isStroke),
+    };
+};
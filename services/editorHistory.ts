@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Overlay } from '../types';
+import type { AdjustmentSettings } from './adjustments';
+
+// The document being edited: the base image plus everything composited with it
+export interface EditorState {
+    image: File;
+    overlays: Overlay[];
+}
+
+export interface OverlayChange {
+    id: string;
+    before: Partial<Overlay>;
+    after: Partial<Overlay>;
+}
+
+export type EditorCommand =
+    // `overlayChanges` moves overlays along with an image change that shifts the picture, e.g. a crop.
+    // `adjustments` records the slider values of a local adjustment so it can be edited again
+    | {
+        type: 'setImage';
+        label: string;
+        before: File;
+        after: File;
+        overlayChanges?: OverlayChange[];
+        adjustments?: AdjustmentSettings;
+    }
+    | { type: 'addOverlays'; label: string; overlays: Overlay[] }
+    | { type: 'removeOverlays'; label: string; removed: Array<{ overlay: Overlay; index: number }> }
+    | { type: 'updateOverlays'; label: string; changes: OverlayChange[]; mergeKey?: string };
+
+/**
+ * A linear undo stack. `commands.slice(0, index)` are applied on top of `base`
+ * to produce `present`; the remaining commands can be redone.
+ */
+export interface EditorHistory {
+    base: EditorState;
+    commands: EditorCommand[];
+    index: number;
+    present: EditorState;
+}
+
+export const createHistory = (image: File, overlays: Overlay[] = []): EditorHistory => {
+    const base = { image, overlays };
+    return { base, commands: [], index: 0, present: base };
+};
+
+const patchOverlays = (overlays: Overlay[], changes: OverlayChange[], side: 'before' | 'after'): Overlay[] => {
+    const byId = new Map(changes.map(change => [change.id, change[side]]));
+    return overlays.map(overlay => {
+        const patch = byId.get(overlay.id);
+        return patch ? { ...overlay, ...patch } : overlay;
+    });
+};
+
+/**
+ * Returns the state produced by running `command` on `state`.
+ */
+export const applyCommand = (state: EditorState, command: EditorCommand): EditorState => {
+    switch (command.type) {
+        case 'setImage':
+            return {
+                image: command.after,
+                overlays: command.overlayChanges ? patchOverlays(state.overlays, command.overlayChanges, 'after') : state.overlays,
+            };
+        case 'addOverlays':
+            return { ...state, overlays: [...state.overlays, ...command.overlays] };
+        case 'removeOverlays': {
+            const removedIds = new Set(command.removed.map(entry => entry.overlay.id));
+            return { ...state, overlays: state.overlays.filter(overlay => !removedIds.has(overlay.id)) };
+        }
+        case 'updateOverlays':
+            return { ...state, overlays: patchOverlays(state.overlays, command.changes, 'after') };
+    }
+};
+
+/**
+ * Returns the state that existed before `command` was run on it.
+ */
+export const revertCommand = (state: EditorState, command: EditorCommand): EditorState => {
+    switch (command.type) {
+        case 'setImage':
+            return {
+                image: command.before,
+                overlays: command.overlayChanges ? patchOverlays(state.overlays, command.overlayChanges, 'before') : state.overlays,
+            };
+        case 'addOverlays': {
+            const addedIds = new Set(command.overlays.map(overlay => overlay.id));
+            return { ...state, overlays: state.overlays.filter(overlay => !addedIds.has(overlay.id)) };
+        }
+        case 'removeOverlays': {
+            // Reinsert in ascending index order so every overlay lands back in its original slot
+            const overlays = [...state.overlays];
+            [...command.removed]
+                .sort((a, b) => a.index - b.index)
+                .forEach(({ overlay, index }) => overlays.splice(index, 0, overlay));
+            return { ...state, overlays };
+        }
+        case 'updateOverlays':
+            return { ...state, overlays: patchOverlays(state.overlays, command.changes, 'before') };
+    }
+};
+
+// Folds a follow-up update from the same gesture into the previous command
+const mergeUpdates = (
+    previous: Extract<EditorCommand, { type: 'updateOverlays' }>,
+    next: Extract<EditorCommand, { type: 'updateOverlays' }>
+): EditorCommand => {
+    const changes = new Map(previous.changes.map(change => [change.id, change]));
+    for (const change of next.changes) {
+        const existing = changes.get(change.id);
+        changes.set(change.id, existing
+            ? { id: change.id, before: { ...change.before, ...existing.before }, after: { ...existing.after, ...change.after } }
+            : change);
+    }
+    return { ...previous, changes: Array.from(changes.values()) };
+};
+
+/**
+ * Runs a command and records it, discarding anything that could have been redone.
+ * Consecutive `updateOverlays` commands sharing a `mergeKey` collapse into one entry.
+ */
+export const pushCommand = (history: EditorHistory, command: EditorCommand): EditorHistory => {
+    const present = applyCommand(history.present, command);
+    const commands = history.commands.slice(0, history.index);
+    const previous = commands[commands.length - 1];
+
+    if (
+        command.type === 'updateOverlays' && command.mergeKey &&
+        previous?.type === 'updateOverlays' && previous.mergeKey === command.mergeKey
+    ) {
+        commands[commands.length - 1] = mergeUpdates(previous, command);
+        return { ...history, commands, present };
+    }
+
+    commands.push(command);
+    return { ...history, commands, index: commands.length, present };
+};
+
+/**
+ * Returns the command that produced the present state, if there is one.
+ */
+export const lastAppliedCommand = (history: EditorHistory): EditorCommand | undefined =>
+    history.index > 0 ? history.commands[history.index - 1] : undefined;
+
+export const canUndo = (history: EditorHistory | null): boolean => !!history && history.index > 0;
+export const canRedo = (history: EditorHistory | null): boolean => !!history && history.index < history.commands.length;
+
+export const undo = (history: EditorHistory): EditorHistory => {
+    if (!canUndo(history)) return history;
+    const index = history.index - 1;
+    return { ...history, index, present: revertCommand(history.present, history.commands[index]) };
+};
+
+export const redo = (history: EditorHistory): EditorHistory => {
+    if (!canRedo(history)) return history;
+    return { ...history, index: history.index + 1, present: applyCommand(history.present, history.commands[history.index]) };
+};
+
+/**
+ * Undoes or redoes until exactly `index` commands are applied.
+ */
+export const jumpTo = (history: EditorHistory, index: number): EditorHistory => {
+    let result = history;
+    while (result.index > index && canUndo(result)) result = undo(result);
+    while (result.index < index && canRedo(result)) result = redo(result);
+    return result;
+};
+
+/**
+ * Recomputes `present` from `base` and the applied commands, e.g. after deserializing.
+ */
+export const rebuildHistory = (base: EditorState, commands: EditorCommand[], index: number): EditorHistory => {
+    const clampedIndex = Math.min(Math.max(0, index), commands.length);
+    const present = commands.slice(0, clampedIndex).reduce(applyCommand, base);
+    return { base, commands, index: clampedIndex, present };
+};
+
+export interface OverlayUpdate {
+    id: string;
+    updates: Partial<Overlay>;
+}
+
+/**
+ * Builds one `updateOverlays` command covering several overlays, capturing their current
+ * values as `before`. Updates for overlays that do not exist are skipped.
+ * Returns null when none of the overlays exist.
+ */
+export const createOverlaysUpdate = (
+    state: EditorState,
+    updates: OverlayUpdate[],
+    label: string,
+    mergeKey?: string
+): EditorCommand | null => {
+    const changes: OverlayChange[] = [];
+    for (const { id, updates: after } of updates) {
+        const overlay = state.overlays.find(o => o.id === id);
+        if (!overlay) continue;
+        const before: Partial<Overlay> = {};
+        for (const key of Object.keys(after) as Array<keyof Overlay>) {
+            (before as Record<string, unknown>)[key] = overlay[key];
+        }
+        changes.push({ id, before, after });
+    }
+    return changes.length > 0 ? { type: 'updateOverlays', label, changes, mergeKey } : null;
+};
+
+/**
+ * Builds an `updateOverlays` command for one overlay, capturing its current values as `before`.
+ * Returns null when the overlay does not exist.
+ */
+export const createOverlayUpdate = (
+    state: EditorState,
+    id: string,
+    updates: Partial<Overlay>,
+    label: string,
+    mergeKey?: string
+): EditorCommand | null => createOverlaysUpdate(state, [{ id, updates }], label, mergeKey);
+
+/**
+ * Builds a `removeOverlays` command for the given ids, remembering where each one sat.
+ */
+export const createOverlayRemoval = (state: EditorState, ids: string[], label: string): EditorCommand | null => {
+    const idSet = new Set(ids);
+    const removed = state.overlays
+        .map((overlay, index) => ({ overlay, index }))
+        .filter(entry => idSet.has(entry.overlay.id));
+    return removed.length > 0 ? { type: 'removeOverlays', label, removed } : null;
+};
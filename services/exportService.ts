@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Overlay } from '../types';
+import { buildCompositionLayers, renderComposition, FailedAsset, STAGE_SIZE } from './compositionRenderer';
+
+export type ExportFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ExportOptions {
+    /** Output pixels per stage pixel, e.g. 2 for a 800×800 export. */
+    scale: number;
+    format: ExportFormat;
+    /** Encoder quality between 0 and 1; ignored for PNG. */
+    quality: number;
+    /** Leave the background transparent instead of filling it white. Not possible for JPEG. */
+    transparentBackground: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    scale: 1,
+    format: 'image/png',
+    quality: 0.92,
+    transparentBackground: false,
+};
+
+export const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+};
+
+export const supportsTransparency = (format: ExportFormat): boolean => format !== 'image/jpeg';
+
+export interface ExportResult {
+    blob: Blob;
+    /** Layers whose image could not be loaded and are missing from the export. */
+    failed: FailedAsset[];
+}
+
+/**
+ * Renders the composition onto an offscreen canvas and encodes it.
+ * The canvas is sized STAGE_SIZE × scale and every layer is drawn from its source image
+ * by the same renderer as the preview, so larger scales produce genuinely sharper output
+ * rather than an upscaled screenshot.
+ * @param baseImageUrl URL of the base (character) image.
+ * @param overlays The asset overlays in stage coordinates.
+ * @param options Size, format and background options.
+ * @returns A promise that resolves to the encoded image and any layers that failed to load.
+ */
+export const exportComposition = async (
+    baseImageUrl: string,
+    overlays: Overlay[],
+    options: ExportOptions
+): Promise<ExportResult> => {
+    const size = Math.round(STAGE_SIZE * options.scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a 2D canvas context');
+
+    const transparent = options.transparentBackground && supportsTransparency(options.format);
+    const { failed } = await renderComposition(ctx, buildCompositionLayers(baseImageUrl, overlays), {
+        scale: size / STAGE_SIZE,
+        background: transparent ? null : '#ffffff',
+    });
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(
+            result => result ? resolve(result) : reject(new Error('The browser could not encode the image.')),
+            options.format,
+            options.quality
+        );
+    });
+    return { blob, failed };
+};
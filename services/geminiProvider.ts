@@ -0,0 +1,199 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { ImageEditProvider } from './imageEditProvider';
+import { NoImageReturnedError, SafetyBlockedError, InvalidKeyError, toImageEditError } from './imageEditErrors';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image-preview';
+
+export interface GeminiProviderOptions {
+    apiKey: string;
+    model?: string;
+}
+
+// Helper function to convert a File object to a Gemini API Part
+const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+    
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+    
+    const mimeType = mimeMatch[1];
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+};
+
+// Finish reasons that mean the output was withheld by safety filters
+const SAFETY_FINISH_REASONS: string[] = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const handleApiResponse = (
+    response: GenerateContentResponse,
+    context: string // e.g., "edit", "filter", "adjustment"
+): string => {
+    // 1. Check for prompt blocking first
+    if (response.promptFeedback?.blockReason) {
+        const { blockReason, blockReasonMessage } = response.promptFeedback;
+        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
+        console.error(errorMessage, { response });
+        throw new SafetyBlockedError(blockReason, errorMessage);
+    }
+
+    // 2. Try to find the image part
+    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        console.log(`Received image data (${mimeType}) for ${context}`);
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    // 3. If no image, check for other reasons
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (finishReason && finishReason !== 'STOP') {
+        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
+        console.error(errorMessage, { response });
+        throw SAFETY_FINISH_REASONS.includes(finishReason)
+            ? new SafetyBlockedError(finishReason, errorMessage)
+            : new NoImageReturnedError(errorMessage);
+    }
+    
+    const textFeedback = response.text?.trim();
+    const errorMessage = `The AI model did not return an image for the ${context}. ` + 
+        (textFeedback 
+            ? `The model responded with text: "${textFeedback}"`
+            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
+
+    console.error(`Model response did not contain an image part for ${context}.`, { response });
+    throw new NoImageReturnedError(errorMessage, textFeedback || undefined);
+};
+
+/**
+ * Creates a provider that performs image edits with the Gemini API.
+ * @param options The API key and, optionally, the model to use.
+ * @returns An ImageEditProvider backed by Gemini.
+ */
+export const createGeminiProvider = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: GeminiProviderOptions): ImageEditProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    const generate = async (images: File[], prompt: string, context: string, signal?: AbortSignal): Promise<string> => {
+        if (!apiKey) {
+            throw new InvalidKeyError('No Gemini API key is set.');
+        }
+        const imageParts = await Promise.all(images.map(fileToPart));
+        const textPart = { text: prompt };
+
+        console.log(`Sending ${imageParts.length} image(s) and ${context} prompt to ${model}...`);
+        let response: GenerateContentResponse;
+        try {
+            response = await ai.models.generateContent({
+                model,
+                contents: { parts: [...imageParts, textPart] },
+                config: { abortSignal: signal },
+            });
+        } catch (err) {
+            throw toImageEditError(err);
+        }
+        console.log(`Received response from model for ${context}.`, response);
+
+        return handleApiResponse(response, context);
+    };
+
+    return {
+        id: 'gemini',
+        name: `Gemini (${model})`,
+
+        editImage: async (originalImage, userPrompt, mask, signal) => {
+            console.log('Starting masked generative edit');
+            const prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request.
+User Request: "${userPrompt}"
+Edit Location: The second image is a mask of the same size as the photo. Edit ONLY the region that is white in the mask; black areas must not change.
+
+Editing Guidelines:
+- The edit must be realistic and blend seamlessly with the surrounding area at the mask's edges.
+- Everything outside the white mask region must remain identical to the original.
+- Return the full photo at its original size and framing, not just the edited region.
+
+Safety & Ethics Policy:
+- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
+- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
+
+Output: Return ONLY the final edited image. Do not return text.`;
+            return generate([originalImage, mask], prompt, 'edit', signal);
+        },
+
+        filterImage: async (originalImage, filterPrompt, signal) => {
+            console.log(`Starting filter generation: ${filterPrompt}`);
+            const prompt = `You are an expert photo editor AI. Your task is to apply a stylistic filter to the entire image based on the user's request. Do not change the composition or content, only apply the style.
+Filter Request: "${filterPrompt}"
+
+Safety & Ethics Policy:
+- Filters may subtly shift colors, but you MUST ensure they do not alter a person's fundamental race or ethnicity.
+- You MUST REFUSE any request that explicitly asks to change a person's race (e.g., 'apply a filter to make me look Chinese').
+
+Output: Return ONLY the final filtered image. Do not return text.`;
+            return generate([originalImage], prompt, 'filter', signal);
+        },
+
+        adjustImage: async (originalImage, adjustmentPrompt, signal) => {
+            console.log(`Starting global adjustment generation: ${adjustmentPrompt}`);
+            const prompt = `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the entire image based on the user's request.
+User Request: "${adjustmentPrompt}"
+
+Editing Guidelines:
+- The adjustment must be applied across the entire image.
+- The result must be photorealistic.
+
+Safety & Ethics Policy:
+- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
+- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
+
+Output: Return ONLY the final adjusted image. Do not return text.`;
+            return generate([originalImage], prompt, 'adjustment', signal);
+        },
+
+        segmentSubject: async (originalImage, signal) => {
+            console.log('Starting subject segmentation');
+            const prompt = `You are an expert image segmentation AI. Your task is to separate the main subject of the provided image from its background.
+
+Output Guidelines:
+- Return a black-and-white mask with exactly the same dimensions and framing as the input image.
+- Paint the main subject (the person, animal, character or object in focus) pure white, including fine details like hair, fur and whiskers.
+- Paint everything else, including the background, shadows and floor, pure black.
+- Do not add, remove or move anything.
+
+Output: Return ONLY the mask image. Do not return text.`;
+            return generate([originalImage], prompt, 'subject mask', signal);
+        },
+    };
+};
+
+/**
+ * Checks that the key is accepted and the model is available, without generating anything.
+ * @param options The API key and model to check.
+ * @param signal Aborts the check.
+ * @returns A promise that resolves with the model's display name, or rejects with a typed error.
+ */
+export const checkGeminiConnection = async (
+    { apiKey, model = DEFAULT_GEMINI_MODEL }: GeminiProviderOptions,
+    signal?: AbortSignal
+): Promise<string> => {
+    if (!apiKey) {
+        throw new InvalidKeyError('No Gemini API key is set.');
+    }
+    try {
+        const info = await new GoogleGenAI({ apiKey }).models.get({ model, config: { abortSignal: signal } });
+        return info.displayName || model;
+    } catch (err) {
+        throw toImageEditError(err);
+    }
+};
@@ -3,175 +3,114 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { getImageEditProvider, registerImageEditProvider, setImageEditProvider } from './imageEditProvider';
+import { checkGeminiConnection, createGeminiProvider } from './geminiProvider';
+import { ApiSettings, loadApiSettings, saveApiSettings } from './apiSettings';
+import { createMockProvider } from './mockProvider';
+import { loadImage } from './compositionRenderer';
+import { canvasToFile, compositeThroughMask, maskToLuminance } from './mask';
+
+// The key and model come from the user's settings, so nothing secret is built into the bundle
+registerImageEditProvider('gemini', () => {
+    const { apiKey, model } = loadApiSettings();
+    return createGeminiProvider({ apiKey, model });
+});
+registerImageEditProvider('mock', () => createMockProvider());
 
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
-};
-
-const handleApiResponse = (
-    response: GenerateContentResponse,
-    context: string // e.g., "edit", "filter", "adjustment"
-): string => {
-    // 1. Check for prompt blocking first
-    if (response.promptFeedback?.blockReason) {
-        const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
-    }
-
-    // 2. Try to find the image part
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        console.log(`Received image data (${mimeType}) for ${context}`);
-        return `data:${mimeType};base64,${data}`;
-    }
+/**
+ * Returns true when AI operations can't run because the Gemini provider has no API key.
+ */
+export const isApiKeyMissing = (): boolean =>
+    getImageEditProvider().id === 'gemini' && !loadApiSettings().apiKey;
 
-    // 3. If no image, check for other reasons
-    const finishReason = response.candidates?.[0]?.finishReason;
-    if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+/**
+ * Saves new API settings and recreates the Gemini provider so they take effect immediately.
+ * @param settings The key, model and where to keep the key.
+ */
+export const applyApiSettings = (settings: ApiSettings): void => {
+    saveApiSettings(settings);
+    if (getImageEditProvider().id === 'gemini') {
+        setImageEditProvider('gemini');
     }
-    
-    const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image for the ${context}. ` + 
-        (textFeedback 
-            ? `The model responded with text: "${textFeedback}"`
-            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
+};
 
-    console.error(`Model response did not contain an image part for ${context}.`, { response });
-    throw new Error(errorMessage);
+/**
+ * Tests settings before they are saved by asking Gemini about the chosen model.
+ * @param settings The key and model to test.
+ * @param signal Aborts the test.
+ * @returns A promise that resolves with the model's display name.
+ */
+export const testApiSettings = async (settings: ApiSettings, signal?: AbortSignal): Promise<string> => {
+    return checkGeminiConnection({ apiKey: settings.apiKey.trim(), model: settings.model }, signal);
 };
 
 /**
- * Generates an edited image using generative AI based on a text prompt and a specific point.
+ * Generates an edited image using generative AI based on a text prompt and a mask.
+ * The model is only asked to edit the masked region, and its result is then composited
+ * back over the original so nothing outside the mask can change.
  * @param originalImage The original image file.
  * @param userPrompt The text prompt describing the desired edit.
- * @param hotspot The {x, y} coordinates on the image to focus the edit.
+ * @param mask A mask the size of the image selecting the region to edit.
+ * @param signal Aborts the request.
  * @returns A promise that resolves to the data URL of the edited image.
  */
 export const generateEditedImage = async (
     originalImage: File,
     userPrompt: string,
-    hotspot: { x: number, y: number }
+    mask: HTMLCanvasElement,
+    signal?: AbortSignal
 ): Promise<string> => {
-    console.log('Starting generative edit at:', hotspot);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    const prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request.
-User Request: "${userPrompt}"
-Edit Location: Focus on the area around pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}).
-
-Editing Guidelines:
-- The edit must be realistic and blend seamlessly with the surrounding area.
-- The rest of the image (outside the immediate edit area) must remain identical to the original.
-
-Safety & Ethics Policy:
-- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
-- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
-
-Output: Return ONLY the final edited image. Do not return text.`;
-    const textPart = { text: prompt };
-
-    console.log('Sending image and prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-    });
-    console.log('Received response from model.', response);
-
-    return handleApiResponse(response, 'edit');
+    const maskFile = await canvasToFile(maskToLuminance(mask), 'mask.png');
+    const editedImageUrl = await getImageEditProvider().editImage(originalImage, userPrompt, maskFile, signal);
+
+    const originalUrl = URL.createObjectURL(originalImage);
+    try {
+        const [original, edited] = await Promise.all([loadImage(originalUrl), loadImage(editedImageUrl)]);
+        return compositeThroughMask(original, edited, mask).toDataURL('image/png');
+    } finally {
+        URL.revokeObjectURL(originalUrl);
+    }
 };
 
 /**
  * Generates an image with a filter applied using generative AI.
  * @param originalImage The original image file.
  * @param filterPrompt The text prompt describing the desired filter.
+ * @param signal Aborts the request.
  * @returns A promise that resolves to the data URL of the filtered image.
  */
 export const generateFilteredImage = async (
     originalImage: File,
     filterPrompt: string,
+    signal?: AbortSignal,
 ): Promise<string> => {
-    console.log(`Starting filter generation: ${filterPrompt}`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    const prompt = `You are an expert photo editor AI. Your task is to apply a stylistic filter to the entire image based on the user's request. Do not change the composition or content, only apply the style.
-Filter Request: "${filterPrompt}"
-
-Safety & Ethics Policy:
-- Filters may subtly shift colors, but you MUST ensure they do not alter a person's fundamental race or ethnicity.
-- You MUST REFUSE any request that explicitly asks to change a person's race (e.g., 'apply a filter to make me look Chinese').
-
-Output: Return ONLY the final filtered image. Do not return text.`;
-    const textPart = { text: prompt };
-
-    console.log('Sending image and filter prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-    });
-    console.log('Received response from model for filter.', response);
-    
-    return handleApiResponse(response, 'filter');
+    return getImageEditProvider().filterImage(originalImage, filterPrompt, signal);
 };
 
 /**
  * Generates an image with a global adjustment applied using generative AI.
  * @param originalImage The original image file.
  * @param adjustmentPrompt The text prompt describing the desired adjustment.
+ * @param signal Aborts the request.
  * @returns A promise that resolves to the data URL of the adjusted image.
  */
 export const generateAdjustedImage = async (
     originalImage: File,
     adjustmentPrompt: string,
+    signal?: AbortSignal,
 ): Promise<string> => {
-    console.log(`Starting global adjustment generation: ${adjustmentPrompt}`);
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    const prompt = `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the entire image based on the user's request.
-User Request: "${adjustmentPrompt}"
-
-Editing Guidelines:
-- The adjustment must be applied across the entire image.
-- The result must be photorealistic.
-
-Safety & Ethics Policy:
-- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
-- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
-
-Output: Return ONLY the final adjusted image. Do not return text.`;
-    const textPart = { text: prompt };
+    return getImageEditProvider().adjustImage(originalImage, adjustmentPrompt, signal);
+};
 
-    console.log('Sending image and adjustment prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-    });
-    console.log('Received response from model for adjustment.', response);
-    
-    return handleApiResponse(response, 'adjustment');
+/**
+ * Asks the AI for a mask that separates the main subject from the background.
+ * @param originalImage The image to segment.
+ * @param signal Aborts the request.
+ * @returns A promise that resolves to the data URL of a black-and-white mask, white on the subject.
+ */
+export const generateSubjectMask = async (
+    originalImage: File,
+    signal?: AbortSignal,
+): Promise<string> => {
+    return getImageEditProvider().segmentSubject(originalImage, signal);
 };
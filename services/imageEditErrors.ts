@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Machine-readable cause of a failed AI image operation, used to pick the recovery UI
+export type ImageEditErrorReason = 'safety-blocked' | 'no-image-returned' | 'rate-limited' | 'network' | 'invalid-key';
+
+/**
+ * Base class for failures of AI image operations. `retryable` marks failures that may well
+ * succeed if the same request is sent again.
+ */
+export class ImageEditError extends Error {
+    readonly reason: ImageEditErrorReason;
+    readonly retryable: boolean;
+
+    constructor(reason: ImageEditErrorReason, message: string, retryable: boolean, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+        this.reason = reason;
+        this.retryable = retryable;
+    }
+}
+
+/** The prompt or the generated image was blocked by safety filters. */
+export class SafetyBlockedError extends ImageEditError {
+    /** The provider's own block or finish reason, e.g. "SAFETY" or "PROHIBITED_CONTENT". */
+    readonly providerReason: string;
+
+    constructor(providerReason: string, message: string) {
+        super('safety-blocked', message, false);
+        this.providerReason = providerReason;
+    }
+}
+
+/** The model replied without an image, e.g. with text only or after stopping early. */
+export class NoImageReturnedError extends ImageEditError {
+    /** Any text the model sent instead of an image. */
+    readonly modelText?: string;
+
+    constructor(message: string, modelText?: string) {
+        super('no-image-returned', message, false);
+        this.modelText = modelText;
+    }
+}
+
+/** Too many requests; the quota or rate limit was hit. */
+export class RateLimitedError extends ImageEditError {
+    constructor(message: string = 'Too many requests. Please wait a moment and try again.', options?: { cause?: unknown }) {
+        super('rate-limited', message, true, options);
+    }
+}
+
+/** The service could not be reached or failed on its side. */
+export class NetworkError extends ImageEditError {
+    constructor(message: string = 'Could not reach the AI service. Check your connection and try again.', options?: { cause?: unknown }) {
+        super('network', message, true, options);
+    }
+}
+
+/** The API key is missing, malformed or not allowed to use the model. */
+export class InvalidKeyError extends ImageEditError {
+    constructor(message: string = 'The API key was rejected. Check it in the settings.', options?: { cause?: unknown }) {
+        super('invalid-key', message, false, options);
+    }
+}
+
+/**
+ * Maps a failed request to one of the typed errors where possible; anything unrecognised,
+ * including aborts, is returned unchanged.
+ */
+export const toImageEditError = (err: unknown): unknown => {
+    if (err instanceof ImageEditError) return err;
+    if (err instanceof DOMException && err.name === 'AbortError') return err;
+    // fetch rejects with a TypeError when the network is unavailable
+    if (err instanceof TypeError) return new NetworkError(undefined, { cause: err });
+
+    const status = (err as { status?: unknown } | null)?.status;
+    const message = err instanceof Error ? err.message : String(err);
+    if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid|PERMISSION_DENIED/i.test(message)) {
+        return new InvalidKeyError(undefined, { cause: err });
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+        return new RateLimitedError(undefined, { cause: err });
+    }
+    if (status === 408 || (typeof status === 'number' && status >= 500) || /UNAVAILABLE|DEADLINE_EXCEEDED/.test(message)) {
+        return new NetworkError(undefined, { cause: err });
+    }
+    return err;
+};
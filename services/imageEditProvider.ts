@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A backend capable of performing the AI image operations used by the editor.
+ * Every method resolves to a data URL of the resulting image, and rejects with an
+ * AbortError if `signal` is aborted before the result arrives.
+ */
+export interface ImageEditProvider {
+    /** Stable identifier, e.g. "gemini" or "mock". */
+    readonly id: string;
+    /** Human readable name shown in the UI. */
+    readonly name: string;
+    /** `mask` is a black-and-white image of the same size, white where the edit should happen. */
+    editImage(originalImage: File, userPrompt: string, mask: File, signal?: AbortSignal): Promise<string>;
+    filterImage(originalImage: File, filterPrompt: string, signal?: AbortSignal): Promise<string>;
+    adjustImage(originalImage: File, adjustmentPrompt: string, signal?: AbortSignal): Promise<string>;
+    /** Resolves to a black-and-white mask of the same size, white where the main subject is. */
+    segmentSubject(originalImage: File, signal?: AbortSignal): Promise<string>;
+}
+
+export type ImageEditProviderFactory = () => ImageEditProvider;
+
+const factories = new Map<string, ImageEditProviderFactory>();
+let activeProvider: ImageEditProvider | null = null;
+
+/**
+ * Makes a provider available for selection under the given id.
+ * @param id The id used to select the provider.
+ * @param factory Creates the provider the first time it is selected.
+ */
+export const registerImageEditProvider = (id: string, factory: ImageEditProviderFactory): void => {
+    factories.set(id, factory);
+};
+
+/**
+ * Returns the ids of all registered providers.
+ */
+export const listImageEditProviders = (): string[] => Array.from(factories.keys());
+
+/**
+ * Selects the provider used by subsequent image operations.
+ * @param id The id of a registered provider.
+ * @returns The selected provider.
+ */
+export const setImageEditProvider = (id: string): ImageEditProvider => {
+    const factory = factories.get(id);
+    if (!factory) {
+        throw new Error(`Unknown image edit provider "${id}". Available: ${listImageEditProviders().join(', ')}`);
+    }
+    activeProvider = factory();
+    console.log(`Image edit provider set to ${activeProvider.name}`);
+    return activeProvider;
+};
+
+/**
+ * Returns the active provider, selecting the default one on first use.
+ * The default comes from the IMAGE_PROVIDER env variable and falls back to "gemini".
+ */
+export const getImageEditProvider = (): ImageEditProvider => {
+    if (!activeProvider) {
+        setImageEditProvider(process.env.IMAGE_PROVIDER || 'gemini');
+    }
+    return activeProvider!;
+};
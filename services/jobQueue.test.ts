@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { createJobQueue } from './jobQueue';
+
+// Stands in for the editor: jobs read the latest image when they start, and results are committed by the caller
+const createEditor = (image: string) => {
+    let latest = image;
+    return {
+        latestImage: () => latest,
+        commit: (next: string) => { latest = next; },
+    };
+};
+
+describe('createJobQueue', () => {
+    it('runs a queued edit on the output of the edit before it', async () => {
+        const queue = createJobQueue();
+        const editor = createEditor('original');
+        const inputs: string[] = [];
+
+        const edit = async (name: string) => {
+            const output = await queue.enqueue(name, async () => {
+                const input = editor.latestImage();
+                inputs.push(input);
+                return `${input}+${name}`;
+            });
+            // Callers may await more before committing, like the editor presenting variants
+            await Promise.resolve();
+            editor.commit(output);
+        };
+
+        await Promise.all([edit('first'), edit('second')]);
+
+        expect(inputs).toEqual(['original', 'original+first']);
+        expect(editor.latestImage()).toBe('original+first+second');
+    });
+
+    it('does not run a job cancelled while it was queued', async () => {
+        const queue = createJobQueue();
+        const ran: string[] = [];
+
+        const first = queue.enqueue('first', async () => { ran.push('first'); });
+        const second = queue.enqueue('second', async () => { ran.push('second'); });
+        queue.cancel(queue.getJobs()[1].id);
+
+        await first;
+        await expect(second).rejects.toMatchObject({ name: 'AbortError' });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(ran).toEqual(['first']);
+        expect(queue.getJobs().map(job => job.status)).toEqual(['succeeded', 'cancelled']);
+    });
+});
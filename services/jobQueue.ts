@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageEditError } from './imageEditErrors';
+
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+// A snapshot of one queued operation, for display
+export interface Job {
+    id: string;
+    label: string;
+    status: JobStatus;
+    /** The attempt currently running or last run, starting at 1. */
+    attempt: number;
+    maxAttempts: number;
+    error?: string;
+    createdAt: number;
+}
+
+export interface JobQueueOptions {
+    /** How many jobs run at the same time. */
+    concurrency?: number;
+    /** Attempts per job, including the first, before a transient failure is reported. */
+    maxAttempts?: number;
+    /** Delay before the first retry; each further retry waits twice as long. */
+    baseRetryDelayMs?: number;
+    /** Called with the current jobs whenever one is added or changes status. */
+    onChange?: (jobs: Job[]) => void;
+}
+
+export interface JobQueue {
+    /**
+     * Adds a job and resolves with its result once it has run.
+     * Rejects with an AbortError if the job is cancelled.
+     */
+    enqueue<T>(label: string, run: (signal: AbortSignal) => Promise<T>): Promise<T>;
+    cancel(id: string): void;
+    /** Removes finished, failed and cancelled jobs from the list. */
+    clearFinished(): void;
+    getJobs(): Job[];
+}
+
+interface QueueEntry {
+    job: Job;
+    controller: AbortController;
+    run: (signal: AbortSignal) => Promise<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+}
+
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'running', 'retrying'];
+
+export const isAbortError = (err: unknown): boolean =>
+    err instanceof DOMException && err.name === 'AbortError';
+
+const createAbortError = () => new DOMException('The job was cancelled.', 'AbortError');
+
+/**
+ * Returns true for failures worth retrying: dropped connections, rate limits and server errors.
+ * Anything else (bad requests, blocked prompts, missing images) would fail again the same way.
+ */
+export const isTransientError = (err: unknown): boolean => {
+    if (isAbortError(err)) return false;
+    if (err instanceof ImageEditError) return err.retryable;
+    // fetch rejects with a TypeError when the network is unavailable
+    if (err instanceof TypeError) return true;
+    const status = (err as { status?: unknown } | null)?.status;
+    if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+    const message = err instanceof Error ? err.message : String(err);
+    return /\b(408|429|500|502|503|504)\b|UNAVAILABLE|RESOURCE_EXHAUSTED|overloaded|timed? ?out|network/i.test(message);
+};
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+const wait = (ms: number, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal.aborted) {
+        reject(createAbortError());
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(createAbortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Creates a queue that runs AI operations in order, each with its own AbortController.
+ * Transient failures are retried with exponential backoff (plus a little jitter so parallel
+ * clients don't retry in lockstep); cancelling a job aborts its request or its wait.
+ */
+export const createJobQueue = ({
+    concurrency = 1,
+    maxAttempts = 3,
+    baseRetryDelayMs = 1000,
+    onChange,
+}: JobQueueOptions = {}): JobQueue => {
+    let entries: QueueEntry[] = [];
+
+    const getJobs = () => entries.map(entry => ({ ...entry.job }));
+    const notify = () => onChange?.(getJobs());
+
+    const update = (entry: QueueEntry, changes: Partial<Job>) => {
+        entry.job = { ...entry.job, ...changes };
+        notify();
+    };
+
+    const execute = async (entry: QueueEntry) => {
+        const { signal } = entry.controller;
+        for (let attempt = 1; ; attempt++) {
+            update(entry, { status: 'running', attempt, error: undefined });
+            try {
+                const result = await entry.run(signal);
+                if (signal.aborted) throw createAbortError();
+                update(entry, { status: 'succeeded' });
+                entry.resolve(result);
+                return;
+            } catch (err) {
+                if (signal.aborted || isAbortError(err)) {
+                    update(entry, { status: 'cancelled' });
+                    entry.reject(createAbortError());
+                    return;
+                }
+                const message = err instanceof Error ? err.message : String(err);
+                if (attempt >= maxAttempts || !isTransientError(err)) {
+                    update(entry, { status: 'failed', error: message });
+                    entry.reject(err);
+                    return;
+                }
+                const delay = baseRetryDelayMs * 2 ** (attempt - 1) * (1 + Math.random() * 0.2);
+                console.warn(`Job "${entry.job.label}" failed (attempt ${attempt}/${maxAttempts}), retrying in ${Math.round(delay)}ms:`, err);
+                update(entry, { status: 'retrying', error: message });
+                try {
+                    await wait(delay, signal);
+                } catch {
+                    update(entry, { status: 'cancelled' });
+                    entry.reject(createAbortError());
+                    return;
+                }
+            }
+        }
+    };
+
+    const pump = () => {
+        const running = entries.filter(entry => entry.job.status === 'running' || entry.job.status === 'retrying').length;
+        const next = entries.filter(entry => entry.job.status === 'queued').slice(0, Math.max(0, concurrency - running));
+        next.forEach(entry => {
+            // The next job waits a task, so whoever awaited this one has handled its result by the time it starts
+            execute(entry).finally(() => setTimeout(pump, 0));
+        });
+    };
+
+    return {
+        enqueue: <T>(label: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+            return new Promise<T>((resolve, reject) => {
+                entries = [...entries, {
+                    job: {
+                        id: `job-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+                        label,
+                        status: 'queued',
+                        attempt: 0,
+                        maxAttempts,
+                        createdAt: Date.now(),
+                    },
+                    controller: new AbortController(),
+                    run,
+                    resolve: resolve as (value: unknown) => void,
+                    reject,
+                }];
+                notify();
+                pump();
+            });
+        },
+
+        cancel: (id: string) => {
+            const entry = entries.find(candidate => candidate.job.id === id);
+            if (!entry || !ACTIVE_STATUSES.includes(entry.job.status)) return;
+            entry.controller.abort();
+            // Queued jobs never start, so settle them here; running ones settle in execute
+            if (entry.job.status === 'queued') {
+                update(entry, { status: 'cancelled' });
+                entry.reject(createAbortError());
+            }
+        },
+
+        clearFinished: () => {
+            entries = entries.filter(entry => ACTIVE_STATUSES.includes(entry.job.status));
+            notify();
+        },
+
+        getJobs,
+    };
+};
@@ -0,0 +1,219 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { DrawingLayer, DrawingStroke, Overlay, TextLayer } from '../types';
+import type { OverlayChange } from './editorHistory';
+import { sortByStackingOrder, BASE_LAYER_ID, BASE_LAYER_Z_INDEX, STAGE_SIZE } from './compositionRenderer';
+import { CaptionPosition, TEXT_LAYER_CATEGORY, TEXT_LAYER_SRC, layoutTextLayer } from './textLayers';
+import {
+    DRAWING_LAYER_CATEGORY,
+    DRAWING_LAYER_SRC,
+    drawingToStagePoint,
+    offsetStrokes,
+    strokeBounds,
+    toDrawingStroke,
+} from './drawingLayers';
+
+// Keeps new text layers clear of the stage edges
+const TEXT_MARGIN = 12;
+
+// Overlays below the base image use 1..BASE_LAYER_Z_INDEX-1, overlays above it start here
+const FOREGROUND_Z_INDEX_START = BASE_LAYER_Z_INDEX + 1;
+
+/**
+ * Returns layer ids from top to bottom, as shown in the layers panel.
+ * The base image appears as BASE_LAYER_ID at its position in the stack.
+ */
+export const getLayerOrder = (overlays: Overlay[]): string[] => {
+    const items = [
+        ...overlays.map(overlay => ({ id: overlay.id, zIndex: overlay.zIndex })),
+        { id: BASE_LAYER_ID, zIndex: BASE_LAYER_Z_INDEX },
+    ];
+    return sortByStackingOrder(items).map(item => item.id).reverse();
+};
+
+/**
+ * Computes the zIndex changes that make the stack match `order` (top to bottom).
+ * Overlays listed after BASE_LAYER_ID end up behind the base image.
+ * @returns One change per overlay whose zIndex has to move.
+ */
+export const reorderLayers = (overlays: Overlay[], order: string[]): OverlayChange[] => {
+    const byId = new Map(overlays.map(overlay => [overlay.id, overlay]));
+    const bottomUp = [...order].reverse();
+    const baseIndex = bottomUp.indexOf(BASE_LAYER_ID);
+
+    const changes: OverlayChange[] = [];
+    bottomUp.forEach((id, index) => {
+        const overlay = byId.get(id);
+        if (!overlay) return;
+        const zIndex = index < baseIndex
+            ? Math.min(index + 1, BASE_LAYER_Z_INDEX - 1)
+            : FOREGROUND_Z_INDEX_START + (index - baseIndex - 1);
+        if (overlay.zIndex !== zIndex) {
+            changes.push({ id, before: { zIndex: overlay.zIndex }, after: { zIndex } });
+        }
+    });
+    return changes;
+};
+
+/**
+ * Moves the given layers one step up (towards the front) or down in the stack, stepping
+ * over the base image like any other layer. Layers already at the edge stay put.
+ * @returns The new order, top to bottom, to pass to reorderLayers.
+ */
+export const moveLayers = (overlays: Overlay[], ids: string[], direction: 'up' | 'down'): string[] => {
+    const selected = new Set(ids);
+    const order = getLayerOrder(overlays);
+    // Walk from the edge we move towards so a selected block moves as one
+    const indices = order.map((_, index) => index);
+    if (direction === 'down') indices.reverse();
+    const step = direction === 'up' ? -1 : 1;
+
+    for (const index of indices) {
+        const neighbour = index + step;
+        if (!selected.has(order[index]) || neighbour < 0 || neighbour >= order.length) continue;
+        if (selected.has(order[neighbour])) continue;
+        [order[index], order[neighbour]] = [order[neighbour], order[index]];
+    }
+    return order;
+};
+
+/**
+ * Picks the zIndex for a newly added overlay: backgrounds go on top of the other
+ * layers behind the base image, everything else on top of the whole stack.
+ */
+export const nextZIndex = (overlays: Overlay[], category: string): number => {
+    if (category === 'backgrounds') {
+        const behind = overlays.filter(overlay => overlay.zIndex < BASE_LAYER_Z_INDEX).map(overlay => overlay.zIndex);
+        return Math.min(Math.max(0, ...behind) + 1, BASE_LAYER_Z_INDEX - 1);
+    }
+    // Characters start at 500 and accessories at 1000 so they keep their historical defaults
+    const floor = category === 'characters' ? 500 : 1000;
+    return Math.max(floor, ...overlays.map(overlay => overlay.zIndex + 1));
+};
+
+/**
+ * Creates a copy of an overlay, offset slightly. It keeps the original's zIndex; since it
+ * is appended after the original, the tie puts it directly above.
+ */
+export const duplicateOverlay = (overlay: Overlay): Overlay => ({
+    ...overlay,
+    id: `asset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name: `${overlay.name} copy`,
+    x: overlay.x + 10,
+    y: overlay.y + 10,
+    locked: false,
+});
+
+/**
+ * Creates a text layer at its natural size, shrunk to fit the stage if needed.
+ * Fonts should be loaded first so the layer is measured with the real font.
+ * @param overlays The existing overlays, used to stack the new layer on top.
+ * @param text The text and its styling.
+ * @param position Where on the stage to put it.
+ */
+export const createTextOverlay = (overlays: Overlay[], text: TextLayer, position: CaptionPosition): Overlay => {
+    const layout = layoutTextLayer(text);
+    const scale = Math.min(1, (STAGE_SIZE - TEXT_MARGIN * 2) / layout.width, (STAGE_SIZE - TEXT_MARGIN * 2) / layout.height);
+    const width = layout.width * scale;
+    const height = layout.height * scale;
+    const y = position === 'top' ? TEXT_MARGIN
+        : position === 'bottom' ? STAGE_SIZE - TEXT_MARGIN - height
+        : (STAGE_SIZE - height) / 2;
+    return {
+        id: `text-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        src: TEXT_LAYER_SRC,
+        name: text.content.split('\n')[0].trim().slice(0, 24) || 'Text',
+        category: TEXT_LAYER_CATEGORY,
+        x: (STAGE_SIZE - width) / 2,
+        y,
+        width,
+        height,
+        rotation: 0,
+        opacity: 1,
+        zIndex: nextZIndex(overlays, TEXT_LAYER_CATEGORY),
+        text,
+    };
+};
+
+/**
+ * Returns the update that restyles a text layer. The box is resized to the new layout at
+ * the layer's current scale, keeping its centre where it was.
+ */
+export const restyleTextOverlay = (overlay: Overlay, text: TextLayer): Partial<Overlay> => {
+    const before = overlay.text ? layoutTextLayer(overlay.text) : null;
+    const after = layoutTextLayer(text);
+    const scale = before ? Math.min(overlay.width / before.width, overlay.height / before.height) : 1;
+    const width = after.width * scale;
+    const height = after.height * scale;
+    return {
+        text,
+        x: overlay.x + (overlay.width - width) / 2,
+        y: overlay.y + (overlay.height - height) / 2,
+        width,
+        height,
+    };
+};
+
+/**
+ * Creates a drawing layer holding a single stroke, with its box fitted around the stroke.
+ * @param overlays The existing overlays, used to stack the new layer on top.
+ * @param stroke The first stroke, in stage coordinates.
+ */
+export const createDrawingOverlay = (overlays: Overlay[], stroke: DrawingStroke): Overlay => {
+    const bounds = strokeBounds(stroke);
+    return {
+        id: `drawing-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        src: DRAWING_LAYER_SRC,
+        name: 'Drawing',
+        category: DRAWING_LAYER_CATEGORY,
+        ...bounds,
+        rotation: 0,
+        opacity: 1,
+        zIndex: nextZIndex(overlays, DRAWING_LAYER_CATEGORY),
+        drawing: {
+            width: bounds.width,
+            height: bounds.height,
+            strokes: offsetStrokes([stroke], -bounds.x, -bounds.y),
+        },
+    };
+};
+
+/**
+ * Returns the update that adds a stroke to a drawing layer. If the stroke reaches outside
+ * the layer, the layer grows to take it in while everything already drawn stays put.
+ * Eraser strokes never grow the layer, since there is nothing outside it to erase.
+ * @param overlay The drawing layer.
+ * @param stroke The new stroke, in stage coordinates.
+ */
+export const addStrokeToDrawing = (overlay: Overlay & { drawing: DrawingLayer }, stroke: DrawingStroke): Partial<Overlay> => {
+    const { drawing } = overlay;
+    const localStroke = toDrawingStroke(overlay, stroke);
+    const strokes = [...drawing.strokes, localStroke];
+    const bounds = strokeBounds(localStroke);
+    const left = Math.min(0, bounds.x);
+    const top = Math.min(0, bounds.y);
+    const right = Math.max(drawing.width, bounds.x + bounds.width);
+    const bottom = Math.max(drawing.height, bounds.y + bounds.height);
+    if (stroke.tool === 'eraser' || (left === 0 && top === 0 && right === drawing.width && bottom === drawing.height)) {
+        return { drawing: { ...drawing, strokes } };
+    }
+
+    // Grow the box by the same amount in stage pixels, centred where the enlarged drawing's centre lands
+    const width = (right - left) * overlay.width / drawing.width;
+    const height = (bottom - top) * overlay.height / drawing.height;
+    const center = drawingToStagePoint(overlay, (left + right) / 2, (top + bottom) / 2);
+    return {
+        x: center.x - width / 2,
+        y: center.y - height / 2,
+        width,
+        height,
+        drawing: {
+            width: right - left,
+            height: bottom - top,
+            strokes: offsetStrokes(strokes, -left, -top),
+        },
+    };
+};
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Lut3D, applyLut, createLut } from './lut';
+import { createCanvas, getCanvasContext } from './mask';
+
+export type FilterEffect = 'scanlines' | 'chromatic-aberration' | 'halftone' | 'pixelate' | 'posterize';
+
+// A filter that runs on the device and gives the same pixels every time
+export type LocalFilter =
+    | { kind: 'lut'; id: string; name: string; lut: Lut3D }
+    | { kind: 'effect'; id: string; name: string; effect: FilterEffect };
+
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+const clamp01 = (value: number) => value < 0 ? 0 : value > 1 ? 1 : value;
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Colour grades bundled with the editor, built as LUTs so they go through the same path as imported .cube files
+const BUILT_IN_LUTS: Lut3D[] = [
+    createLut('Teal & Orange', 17, (r, g, b) => {
+        const y = luma(r, g, b);
+        // Shadows towards teal, highlights towards orange
+        return [clamp01(mix(r, y + 0.12, 0.35 * y) - 0.04 * (1 - y)), clamp01(g + 0.02 * (1 - y)), clamp01(mix(b, y - 0.1, 0.4 * y) + 0.08 * (1 - y))];
+    }),
+    createLut('Warm Film', 17, (r, g, b) => {
+        const lift = 0.06;
+        return [clamp01(lift + r * 0.98 + 0.04), clamp01(lift + g * 0.92 + 0.01), clamp01(lift + b * 0.8)];
+    }),
+    createLut('Cool Fade', 17, (r, g, b) => {
+        const y = luma(r, g, b);
+        return [clamp01(0.1 + mix(r, y, 0.3) * 0.85), clamp01(0.1 + mix(g, y, 0.3) * 0.88), clamp01(0.14 + mix(b, y, 0.3) * 0.86)];
+    }),
+    createLut('Noir', 17, (r, g, b) => {
+        const y = luma(r, g, b);
+        // S-curve for punchy black and white
+        const contrast = y * y * (3 - 2 * y);
+        return [contrast, contrast, contrast];
+    }),
+];
+
+export const BUILT_IN_FILTERS: LocalFilter[] = [
+    ...BUILT_IN_LUTS.map((lut): LocalFilter => ({ kind: 'lut', id: `builtin-lut/${lut.title}`, name: lut.title, lut })),
+    { kind: 'effect', id: 'effect/scanlines', name: 'Scanlines', effect: 'scanlines' },
+    { kind: 'effect', id: 'effect/chromatic-aberration', name: 'Chromatic Aberration', effect: 'chromatic-aberration' },
+    { kind: 'effect', id: 'effect/halftone', name: 'Halftone', effect: 'halftone' },
+    { kind: 'effect', id: 'effect/pixelate', name: 'Pixelate', effect: 'pixelate' },
+    { kind: 'effect', id: 'effect/posterize', name: 'Posterize', effect: 'posterize' },
+];
+
+// Effect sizes are relative to the image so previews and full-size results look alike
+const relativeSize = (width: number, height: number, fraction: number, minimum: number) =>
+    Math.max(minimum, Math.round(Math.min(width, height) * fraction));
+
+const scanlines = (data: Uint8ClampedArray, width: number, height: number) => {
+    const period = relativeSize(width, height, 1 / 180, 2);
+    for (let y = 0; y < height; y++) {
+        if (Math.floor(y / (period / 2)) % 2 === 0) continue;
+        for (let x = 0; x < width; x++) {
+            const index = (y * width + x) * 4;
+            data[index] *= 0.55;
+            data[index + 1] *= 0.55;
+            data[index + 2] *= 0.55;
+        }
+    }
+};
+
+// Splits red and blue sideways in opposite directions
+const chromaticAberration = (data: Uint8ClampedArray, width: number, height: number) => {
+    const source = new Uint8ClampedArray(data);
+    const offset = relativeSize(width, height, 0.006, 1);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = (y * width + x) * 4;
+            const redX = Math.min(width - 1, x + offset);
+            const blueX = Math.max(0, x - offset);
+            data[index] = source[(y * width + redX) * 4];
+            data[index + 2] = source[(y * width + blueX) * 4 + 2];
+        }
+    }
+};
+
+// Calls `visit` with the average colour of each square cell
+const forEachCell = (
+    data: Uint8ClampedArray,
+    width: number,
+    height: number,
+    cellSize: number,
+    visit: (left: number, top: number, right: number, bottom: number, average: [number, number, number]) => void
+) => {
+    for (let top = 0; top < height; top += cellSize) {
+        for (let left = 0; left < width; left += cellSize) {
+            const right = Math.min(width, left + cellSize);
+            const bottom = Math.min(height, top + cellSize);
+            const sum = [0, 0, 0];
+            for (let y = top; y < bottom; y++) {
+                for (let x = left; x < right; x++) {
+                    const index = (y * width + x) * 4;
+                    sum[0] += data[index];
+                    sum[1] += data[index + 1];
+                    sum[2] += data[index + 2];
+                }
+            }
+            const count = (right - left) * (bottom - top);
+            visit(left, top, right, bottom, [sum[0] / count, sum[1] / count, sum[2] / count]);
+        }
+    }
+};
+
+const pixelate = (data: Uint8ClampedArray, width: number, height: number) => {
+    forEachCell(data, width, height, relativeSize(width, height, 1 / 64, 2), (left, top, right, bottom, average) => {
+        for (let y = top; y < bottom; y++) {
+            for (let x = left; x < right; x++) {
+                data.set(average, (y * width + x) * 4);
+            }
+        }
+    });
+};
+
+// Dots of each cell's colour on white paper, bigger where the image is darker
+const halftone = (data: Uint8ClampedArray, width: number, height: number) => {
+    const cellSize = relativeSize(width, height, 1 / 80, 4);
+    forEachCell(data, width, height, cellSize, (left, top, right, bottom, average) => {
+        const darkness = 1 - luma(average[0], average[1], average[2]) / 255;
+        const radius = cellSize / 2 * Math.SQRT2 * Math.sqrt(darkness);
+        const centerX = left + cellSize / 2;
+        const centerY = top + cellSize / 2;
+        for (let y = top; y < bottom; y++) {
+            for (let x = left; x < right; x++) {
+                const inside = Math.hypot(x + 0.5 - centerX, y + 0.5 - centerY) <= radius;
+                data.set(inside ? average : [255, 255, 255], (y * width + x) * 4);
+            }
+        }
+    });
+};
+
+const posterize = (data: Uint8ClampedArray) => {
+    const steps = 4;
+    for (let i = 0; i < data.length; i += 4) {
+        for (let channel = 0; channel < 3; channel++) {
+            data[i + channel] = Math.round(data[i + channel] / 255 * steps) / steps * 255;
+        }
+    }
+};
+
+const applyEffect = (effect: FilterEffect, data: Uint8ClampedArray, width: number, height: number) => {
+    switch (effect) {
+        case 'scanlines':
+            return scanlines(data, width, height);
+        case 'chromatic-aberration':
+            return chromaticAberration(data, width, height);
+        case 'halftone':
+            return halftone(data, width, height);
+        case 'pixelate':
+            return pixelate(data, width, height);
+        case 'posterize':
+            return posterize(data);
+    }
+};
+
+/**
+ * Applies a local filter, blended over the original by `intensity`. Transparency is kept.
+ * @param image The image to filter.
+ * @param filter The LUT or effect to apply.
+ * @param intensity How strongly to apply it, from 0 to 100.
+ * @param maxSize Optionally limits the longest side, for fast previews.
+ * @returns A canvas holding the filtered image.
+ */
+export const applyLocalFilter = (
+    image: HTMLImageElement,
+    filter: LocalFilter,
+    intensity: number,
+    maxSize: number = Infinity
+): HTMLCanvasElement => {
+    const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const canvas = createCanvas(width, height);
+    const ctx = getCanvasContext(canvas);
+    ctx.drawImage(image, 0, 0, width, height);
+
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const original = new Uint8ClampedArray(imageData.data);
+    const { data } = imageData;
+    if (filter.kind === 'lut') {
+        applyLut(data, filter.lut);
+    } else {
+        applyEffect(filter.effect, data, width, height);
+    }
+
+    const amount = clamp01(intensity / 100);
+    if (amount < 1) {
+        for (let i = 0; i < data.length; i += 4) {
+            data[i] = mix(original[i], data[i], amount);
+            data[i + 1] = mix(original[i + 1], data[i + 1], amount);
+            data[i + 2] = mix(original[i + 2], data[i + 2], amount);
+        }
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas;
+};
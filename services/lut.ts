@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { runRequest, CUSTOM_LUTS_STORE } from './db';
+
+export const MAX_LUT_FILE_BYTES = 20 * 1024 * 1024;
+// The largest size grading tools export; the table is allocated as soon as the size is read, so this also bounds memory
+const MAX_LUT_SIZE = 65;
+
+// A 3D colour lookup table. `data` holds size³ RGB triples with red changing fastest
+export interface Lut3D {
+    title: string;
+    size: number;
+    domainMin: [number, number, number];
+    domainMax: [number, number, number];
+    data: Float32Array;
+}
+
+// A LUT the user imported from a .cube file
+export interface CustomLut {
+    id: string;
+    name: string;
+    lut: Lut3D;
+    createdAt: number;
+}
+
+const parseTriple = (parts: string[], lineNumber: number): [number, number, number] => {
+    const values = parts.map(Number);
+    if (values.length !== 3 || values.some(value => !Number.isFinite(value))) {
+        throw new Error(`Line ${lineNumber} should contain three numbers.`);
+    }
+    return values as [number, number, number];
+};
+
+/**
+ * Parses the text of an Adobe/Resolve .cube file. Only 3D LUTs are supported.
+ * @param text The file contents.
+ * @param fallbackTitle Used when the file has no TITLE line.
+ * @throws If the file is malformed or is a 1D LUT.
+ */
+export const parseCubeLut = (text: string, fallbackTitle: string): Lut3D => {
+    let title = fallbackTitle;
+    let size = 0;
+    let domainMin: [number, number, number] = [0, 0, 0];
+    let domainMax: [number, number, number] = [1, 1, 1];
+    let data: Float32Array | null = null;
+    let count = 0;
+
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line || line.startsWith('#')) continue;
+        const lineNumber = i + 1;
+
+        if (/^[\d.+-]/.test(line)) {
+            if (!data) throw new Error('LUT_3D_SIZE must come before the table data.');
+            if (count >= size ** 3) throw new Error(`The table has more than ${size ** 3} entries.`);
+            data.set(parseTriple(line.split(/\s+/), lineNumber), count * 3);
+            count++;
+            continue;
+        }
+
+        const [keyword, ...rest] = line.split(/\s+/);
+        switch (keyword) {
+            case 'TITLE':
+                title = line.slice('TITLE'.length).trim().replace(/^"(.*)"$/, '$1') || fallbackTitle;
+                break;
+            case 'LUT_3D_SIZE':
+                size = Number(rest[0]);
+                if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+                    throw new Error(`LUT_3D_SIZE must be a whole number from 2 to ${MAX_LUT_SIZE}.`);
+                }
+                data = new Float32Array(size ** 3 * 3);
+                break;
+            case 'LUT_1D_SIZE':
+                throw new Error('1D LUTs are not supported; please use a 3D .cube file.');
+            case 'DOMAIN_MIN':
+                domainMin = parseTriple(rest, lineNumber);
+                break;
+            case 'DOMAIN_MAX':
+                domainMax = parseTriple(rest, lineNumber);
+                break;
+            default:
+                // Other keywords (e.g. LUT_IN_VIDEO_RANGE) don't affect how the table is applied
+                break;
+        }
+    }
+
+    if (!data) throw new Error('The file has no LUT_3D_SIZE line.');
+    if (count !== size ** 3) {
+        throw new Error(`Expected ${size ** 3} table entries for size ${size}, found ${count}.`);
+    }
+    if (domainMin.some((min, channel) => min >= domainMax[channel])) {
+        throw new Error('DOMAIN_MIN must be below DOMAIN_MAX.');
+    }
+    return { title, size, domainMin, domainMax, data };
+};
+
+/**
+ * Builds a LUT by sampling a colour transform on a regular grid.
+ * @param title The LUT's name.
+ * @param size Grid points per channel.
+ * @param transform Maps an RGB colour (0..1) to its graded colour.
+ */
+export const createLut = (
+    title: string,
+    size: number,
+    transform: (r: number, g: number, b: number) => [number, number, number]
+): Lut3D => {
+    const data = new Float32Array(size ** 3 * 3);
+    let offset = 0;
+    for (let b = 0; b < size; b++) {
+        for (let g = 0; g < size; g++) {
+            for (let r = 0; r < size; r++) {
+                data.set(transform(r / (size - 1), g / (size - 1), b / (size - 1)), offset);
+                offset += 3;
+            }
+        }
+    }
+    return { title, size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], data };
+};
+
+/**
+ * Maps every pixel through the LUT with trilinear interpolation. Alpha is left unchanged.
+ * @param data RGBA pixels, modified in place.
+ * @param lut The table to apply.
+ */
+export const applyLut = (data: Uint8ClampedArray, lut: Lut3D): void => {
+    const { size, domainMin, domainMax, data: table } = lut;
+    const max = size - 1;
+    const toGrid = (value: number, channel: number) => {
+        const position = (value / 255 - domainMin[channel]) * max / (domainMax[channel] - domainMin[channel]);
+        return position < 0 ? 0 : position > max ? max : position;
+    };
+    const rowStride = size * 3;
+    const sliceStride = size * size * 3;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const r = toGrid(data[i], 0);
+        const g = toGrid(data[i + 1], 1);
+        const b = toGrid(data[i + 2], 2);
+        const r0 = Math.floor(r);
+        const g0 = Math.floor(g);
+        const b0 = Math.floor(b);
+        const fr = r - r0;
+        const fg = g - g0;
+        const fb = b - b0;
+        // Offsets of the eight surrounding grid points
+        const x0 = r0 * 3;
+        const x1 = Math.min(r0 + 1, max) * 3;
+        const y0 = g0 * rowStride;
+        const y1 = Math.min(g0 + 1, max) * rowStride;
+        const z0 = b0 * sliceStride;
+        const z1 = Math.min(b0 + 1, max) * sliceStride;
+
+        for (let channel = 0; channel < 3; channel++) {
+            const c000 = table[z0 + y0 + x0 + channel];
+            const c100 = table[z0 + y0 + x1 + channel];
+            const c010 = table[z0 + y1 + x0 + channel];
+            const c110 = table[z0 + y1 + x1 + channel];
+            const c001 = table[z1 + y0 + x0 + channel];
+            const c101 = table[z1 + y0 + x1 + channel];
+            const c011 = table[z1 + y1 + x0 + channel];
+            const c111 = table[z1 + y1 + x1 + channel];
+            const c00 = c000 + (c100 - c000) * fr;
+            const c10 = c010 + (c110 - c010) * fr;
+            const c01 = c001 + (c101 - c001) * fr;
+            const c11 = c011 + (c111 - c011) * fr;
+            const c0 = c00 + (c10 - c00) * fg;
+            const c1 = c01 + (c11 - c01) * fg;
+            data[i + channel] = (c0 + (c1 - c0) * fb) * 255;
+        }
+    }
+};
+
+/**
+ * Reads and validates a .cube file and wraps it as a new custom LUT.
+ * @throws If the file is too large or not a valid 3D LUT.
+ */
+export const importCubeFile = async (file: File): Promise<CustomLut> => {
+    if (file.size > MAX_LUT_FILE_BYTES) {
+        throw new Error(`"${file.name}" is larger than ${MAX_LUT_FILE_BYTES / (1024 * 1024)} MB.`);
+    }
+    const fallbackTitle = file.name.replace(/\.cube$/i, '');
+    let lut: Lut3D;
+    try {
+        lut = parseCubeLut(await file.text(), fallbackTitle);
+    } catch (err) {
+        const reason = err instanceof Error ? err.message : String(err);
+        throw new Error(`"${file.name}" is not a valid .cube LUT. ${reason}`);
+    }
+    return {
+        id: `lut/${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+        name: lut.title,
+        lut,
+        createdAt: Date.now(),
+    };
+};
+
+/**
+ * Lists the imported LUTs, oldest first so new ones are added at the end.
+ */
+export const listCustomLuts = async (): Promise<CustomLut[]> => {
+    const luts = await runRequest<CustomLut[]>(CUSTOM_LUTS_STORE, 'readonly', store => store.getAll());
+    return luts.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveCustomLut = async (lut: CustomLut): Promise<void> => {
+    await runRequest(CUSTOM_LUTS_STORE, 'readwrite', store => store.put(lut));
+};
+
+export const deleteCustomLut = async (id: string): Promise<void> => {
+    await runRequest(CUSTOM_LUTS_STORE, 'readwrite', store => store.delete(id));
+};
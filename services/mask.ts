@@ -0,0 +1,193 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Masks are canvases the size of the image they belong to. A pixel's alpha is how much it is
+// selected (255 fully, 0 not at all); the colour channels are always white.
+
+export type MaskBrushMode = 'add' | 'erase';
+
+// How a mask is drawn on the stage: freehand strokes, a freehand outline that is filled, or a box
+export type MaskTool = 'brush' | 'lasso' | 'rectangle';
+
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+// Masks and the images they cut are read back often, which this context option speeds up
+export const getCanvasContext = (canvas: HTMLCanvasElement): CanvasRenderingContext2D => {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not create a 2D canvas context');
+    return ctx;
+};
+
+/**
+ * Creates an empty (nothing selected) or full (everything selected) mask.
+ */
+export const createMask = (width: number, height: number, filled: boolean = false): HTMLCanvasElement => {
+    const mask = createCanvas(width, height);
+    if (filled) {
+        const ctx = getCanvasContext(mask);
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    return mask;
+};
+
+/**
+ * Makes a copy of a mask, e.g. to restore it later.
+ */
+export const cloneMask = (mask: HTMLCanvasElement): HTMLCanvasElement => {
+    const copy = createMask(mask.width, mask.height);
+    getCanvasContext(copy).drawImage(mask, 0, 0);
+    return copy;
+};
+
+/**
+ * Paints a round brush stroke from `from` to `to` (in mask pixels) onto the mask.
+ * @param mode 'add' selects the stroked pixels, 'erase' deselects them.
+ */
+export const paintMaskStroke = (
+    mask: HTMLCanvasElement,
+    from: { x: number, y: number },
+    to: { x: number, y: number },
+    radius: number,
+    mode: MaskBrushMode
+): void => {
+    const ctx = getCanvasContext(mask);
+    ctx.save();
+    ctx.globalCompositeOperation = mode === 'add' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = '#fff';
+    ctx.fillStyle = '#fff';
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = radius * 2;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    // A single click has no length, so draw the dab explicitly
+    ctx.beginPath();
+    ctx.arc(to.x, to.y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+};
+
+/**
+ * Fills the polygon through `points` (in mask pixels), e.g. a lasso outline or a rectangle.
+ * @param mode 'add' selects the enclosed pixels, 'erase' deselects them.
+ */
+export const fillMaskPolygon = (mask: HTMLCanvasElement, points: Array<{ x: number, y: number }>, mode: MaskBrushMode): void => {
+    if (points.length < 3) return;
+    const ctx = getCanvasContext(mask);
+    ctx.save();
+    ctx.globalCompositeOperation = mode === 'add' ? 'source-over' : 'destination-out';
+    ctx.fillStyle = '#fff';
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+    ctx.fill();
+    ctx.restore();
+};
+
+/**
+ * Returns true if no pixel of the mask is selected.
+ */
+export const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+    const { data } = getCanvasContext(mask).getImageData(0, 0, mask.width, mask.height);
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] !== 0) return false;
+    }
+    return true;
+};
+
+/**
+ * Blends `edited` over `original` through the mask: unselected pixels are copied from the original
+ * unchanged, selected ones take the edit and partly selected (feathered) ones mix the two.
+ * The edited image is stretched to the original's size in case the model returned another size.
+ * Colour values are copied as integers, so opaque pixels outside the mask stay bit-identical;
+ * partly transparent ones can round slightly because canvases store premultiplied alpha.
+ * @returns A canvas the size of the original holding the combined image.
+ */
+export const compositeThroughMask = (
+    original: HTMLImageElement,
+    edited: HTMLImageElement,
+    mask: HTMLCanvasElement
+): HTMLCanvasElement => {
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+    const readPixels = (source: CanvasImageSource) => {
+        const canvas = createCanvas(width, height);
+        const ctx = getCanvasContext(canvas);
+        ctx.drawImage(source, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height);
+    };
+
+    const output = createCanvas(width, height);
+    const result = readPixels(original);
+    const editedData = readPixels(edited).data;
+    const maskData = readPixels(mask).data;
+    const { data } = result;
+    for (let i = 0; i < data.length; i += 4) {
+        const weight = maskData[i + 3] / 255;
+        if (weight === 0) continue;
+        for (let channel = 0; channel < 4; channel++) {
+            data[i + channel] = Math.round(data[i + channel] + (editedData[i + channel] - data[i + channel]) * weight);
+        }
+    }
+    getCanvasContext(output).putImageData(result, 0, 0);
+    return output;
+};
+
+/**
+ * Turns a black-and-white mask image (e.g. one returned by the AI) into a mask of the given
+ * size; brighter pixels are more selected.
+ */
+export const maskFromLuminance = (image: CanvasImageSource, width: number, height: number): HTMLCanvasElement => {
+    const mask = createMask(width, height);
+    const ctx = getCanvasContext(mask);
+    ctx.drawImage(image, 0, 0, width, height);
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        data[i] = 255;
+        data[i + 1] = 255;
+        data[i + 2] = 255;
+        data[i + 3] = Math.round(luminance * (data[i + 3] / 255));
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return mask;
+};
+
+/**
+ * Renders a mask as an opaque black-and-white image, the form image models expect.
+ */
+export const maskToLuminance = (mask: HTMLCanvasElement): HTMLCanvasElement => {
+    const output = createCanvas(mask.width, mask.height);
+    const ctx = getCanvasContext(output);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, output.width, output.height);
+    ctx.drawImage(mask, 0, 0);
+    return output;
+};
+
+/**
+ * Encodes a canvas as a PNG file.
+ */
+export const canvasToFile = (canvas: HTMLCanvasElement, fileName: string): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (blob) {
+                resolve(new File([blob], fileName, { type: 'image/png' }));
+            } else {
+                reject(new Error('Could not encode the image.'));
+            }
+        }, 'image/png');
+    });
+};
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageEditProvider } from './imageEditProvider';
+import { detectSubjectMask } from './cutout';
+import { maskToLuminance } from './mask';
+
+// Small, stable string hash (FNV-1a) so the same prompt always yields the same result
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const loadImageFromFile = (file: File): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const img = new Image();
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Could not decode image ${file.name}`));
+        };
+        img.src = url;
+    });
+};
+
+// Draws the file onto a canvas, lets `transform` mutate its pixels and returns a PNG data URL
+const transformPixels = async (
+    file: File,
+    transform: (data: Uint8ClampedArray, width: number, height: number) => void
+): Promise<string> => {
+    const img = await loadImageFromFile(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create a 2D canvas context');
+
+    ctx.drawImage(img, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    transform(imageData.data, canvas.width, canvas.height);
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Rotates the hue of an RGB triple by `degrees` using the standard luminance-preserving matrix
+const rotateHue = (r: number, g: number, b: number, degrees: number): [number, number, number] => {
+    const rad = (degrees * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const m = [
+        0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+        0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+        0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+    ];
+    return [
+        r * m[0] + g * m[1] + b * m[2],
+        r * m[3] + g * m[4] + b * m[5],
+        r * m[6] + g * m[7] + b * m[8],
+    ];
+};
+
+// Waits like a network call would, giving up as soon as the signal aborts
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new DOMException('The request was aborted.', 'AbortError'));
+        return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('The request was aborted.', 'AbortError'));
+    }, { once: true });
+});
+
+/**
+ * Creates an offline provider that returns deterministic, locally transformed images.
+ * Useful for developing the editor without network access or an API key.
+ * @param latencyMs Artificial delay added to every call to mimic a network round trip.
+ * @returns An ImageEditProvider that never leaves the browser.
+ */
+export const createMockProvider = (latencyMs: number = 400): ImageEditProvider => ({
+    id: 'mock',
+    name: 'Local mock',
+
+    editImage: async (originalImage, userPrompt, mask, signal) => {
+        console.log(`Mock edit with mask ${mask.name}:`, userPrompt);
+        await delay(latencyMs, signal);
+        const hue = hashString(userPrompt) % 360;
+        // Tint the whole image, like a model that ignores the mask; the editor composites the
+        // result back through the mask, so only the masked region ends up changed
+        return transformPixels(originalImage, (data) => {
+            for (let i = 0; i < data.length; i += 4) {
+                const [r, g, b] = rotateHue(data[i], data[i + 1], data[i + 2], hue);
+                data[i] = r;
+                data[i + 1] = g;
+                data[i + 2] = b;
+            }
+        });
+    },
+
+    filterImage: async (originalImage, filterPrompt, signal) => {
+        console.log(`Mock filter: ${filterPrompt}`);
+        await delay(latencyMs, signal);
+        const hue = hashString(filterPrompt) % 360;
+        return transformPixels(originalImage, (data) => {
+            for (let i = 0; i < data.length; i += 4) {
+                const [r, g, b] = rotateHue(data[i], data[i + 1], data[i + 2], hue);
+                data[i] = r;
+                data[i + 1] = g;
+                data[i + 2] = b;
+            }
+        });
+    },
+
+    adjustImage: async (originalImage, adjustmentPrompt, signal) => {
+        console.log(`Mock adjustment: ${adjustmentPrompt}`);
+        await delay(latencyMs, signal);
+        // Map the prompt to a brightness factor between 0.7 and 1.3
+        const factor = 0.7 + (hashString(adjustmentPrompt) % 61) / 100;
+        return transformPixels(originalImage, (data) => {
+            for (let i = 0; i < data.length; i += 4) {
+                data[i] *= factor;
+                data[i + 1] *= factor;
+                data[i + 2] *= factor;
+            }
+        });
+    },
+
+    segmentSubject: async (originalImage, signal) => {
+        console.log('Mock subject segmentation');
+        await delay(latencyMs, signal);
+        // Same detection as the local cut-out, so the mock stays offline and deterministic
+        const img = await loadImageFromFile(originalImage);
+        return maskToLuminance(detectSubjectMask(img)).toDataURL('image/png');
+    },
+});
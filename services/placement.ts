@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { AnchorPoint, AssetAnchor, AssetEntry, CharacterAnchorName, CharacterAnchors } from '../types';
+import { ASSET_MANIFEST } from './assetCatalog';
+import { BASE_IMAGE_BOX, STAGE_SIZE, Rect, computeFitRect } from './compositionRenderer';
+
+// How far down an asset's box its anchor point sits. A hat rests on the top of the head, so
+// most of it is above the anchor; glasses are centred on the eyes; a chain hangs below the neck
+const VERTICAL_ALIGNMENT: Record<CharacterAnchorName, number> = {
+    head: 0.75,
+    eyes: 0.5,
+    mouth: 0.5,
+    neck: 0.2,
+    body: 0.1,
+};
+
+// Where features usually sit on a front-facing subject, relative to its silhouette's bounding box.
+// Only used for images that have no anchors in the catalog, so it aims to be close, not exact
+const DETECTED_ANCHOR_PROPORTIONS: Record<CharacterAnchorName, AnchorPoint> = {
+    head: { x: 0.5, y: 0.2, width: 0.8 },
+    eyes: { x: 0.5, y: 0.38, width: 0.7 },
+    mouth: { x: 0.5, y: 0.66, width: 0.3 },
+    neck: { x: 0.5, y: 0.76, width: 0.8 },
+    body: { x: 0.5, y: 0.9, width: 1 },
+};
+
+// Detection runs on a downscaled copy; the silhouette only needs to be roughly right
+const DETECTION_SIZE = 96;
+const ALPHA_THRESHOLD = 128;
+const BACKGROUND_COLOR_DISTANCE = 60;
+
+const isCharacterAnchor = (anchor: AssetAnchor): anchor is CharacterAnchorName =>
+    anchor in VERTICAL_ALIGNMENT;
+
+/**
+ * Looks up the catalog anchors of a built-in character by the file name of the base image,
+ * e.g. "zazu.png" for the image loaded by the "Start with Zazu" button.
+ */
+export const findCharacterAnchors = (fileName: string): CharacterAnchors | null => {
+    const character = ASSET_MANIFEST.find(asset =>
+        asset.category === 'characters' && asset.anchors && asset.path.split('/').pop() === fileName
+    );
+    return character?.anchors ?? null;
+};
+
+/**
+ * Estimates anchors for an image that is not in the catalog by finding the subject's silhouette
+ * (opaque pixels, or pixels unlike the corner colour for images without transparency) and
+ * placing the features at typical proportions within it.
+ * @returns The anchors, or null if no subject could be found.
+ */
+export const detectCharacterAnchors = (image: HTMLImageElement): CharacterAnchors | null => {
+    const scale = DETECTION_SIZE / Math.max(image.naturalWidth, image.naturalHeight);
+    const width = Math.max(1, Math.round(image.naturalWidth * scale));
+    const height = Math.max(1, Math.round(image.naturalHeight * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const pixel = (x: number, y: number) => data.subarray((y * width + x) * 4, (y * width + x) * 4 + 4);
+    const corner = pixel(0, 0);
+    const hasTransparency = corner[3] < ALPHA_THRESHOLD;
+    const isSubject = (x: number, y: number) => {
+        const [r, g, b, a] = pixel(x, y);
+        if (hasTransparency) return a >= ALPHA_THRESHOLD;
+        return Math.hypot(r - corner[0], g - corner[1], b - corner[2]) > BACKGROUND_COLOR_DISTANCE;
+    };
+
+    let left = width, right = -1, top = height, bottom = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!isSubject(x, y)) continue;
+            left = Math.min(left, x);
+            right = Math.max(right, x);
+            top = Math.min(top, y);
+            bottom = Math.max(bottom, y);
+        }
+    }
+    if (right < 0) return null;
+
+    const box = { x: left / width, y: top / height, width: (right + 1 - left) / width, height: (bottom + 1 - top) / height };
+    const anchors: CharacterAnchors = {};
+    (Object.keys(DETECTED_ANCHOR_PROPORTIONS) as CharacterAnchorName[]).forEach(name => {
+        const proportion = DETECTED_ANCHOR_PROPORTIONS[name];
+        anchors[name] = {
+            x: box.x + proportion.x * box.width,
+            y: box.y + proportion.y * box.height,
+            width: proportion.width * box.width,
+        };
+    });
+    return anchors;
+};
+
+/**
+ * Works out where a newly added asset goes on the stage.
+ * Assets anchored to a feature the character has are centred on it horizontally, sized to the
+ * feature's width and aligned vertically per anchor; everything else keeps its default size and
+ * is centred on the base image. Backgrounds fill the stage.
+ * @param asset The asset being added.
+ * @param assetSize The natural size of the asset image, used to keep its aspect ratio.
+ * @param baseImageSize The natural size of the base image, or null if it is not known yet.
+ * @param anchors The base character's anchors, or null if there are none.
+ */
+export const placeAsset = (
+    asset: AssetEntry,
+    assetSize: { width: number; height: number } | null,
+    baseImageSize: { width: number; height: number } | null,
+    anchors: CharacterAnchors | null
+): Rect => {
+    if (asset.anchor === 'fill') {
+        return { x: 0, y: 0, width: STAGE_SIZE, height: STAGE_SIZE };
+    }
+
+    const imageRect = baseImageSize
+        ? computeFitRect(baseImageSize.width, baseImageSize.height, BASE_IMAGE_BOX, 'contain')
+        : BASE_IMAGE_BOX;
+    const aspect = assetSize && assetSize.width > 0
+        ? assetSize.height / assetSize.width
+        : asset.defaultSize.height / asset.defaultSize.width;
+
+    const anchor = asset.anchor;
+    const point = isCharacterAnchor(anchor) ? anchors?.[anchor] : undefined;
+    if (!point || !isCharacterAnchor(anchor)) {
+        const { width, height } = asset.defaultSize;
+        return {
+            x: imageRect.x + (imageRect.width - width) / 2,
+            y: imageRect.y + (imageRect.height - height) / 2,
+            width,
+            height,
+        };
+    }
+
+    const width = point.width * imageRect.width;
+    const height = width * aspect;
+    return {
+        x: imageRect.x + point.x * imageRect.width - width / 2,
+        y: imageRect.y + point.y * imageRect.height - height * VERTICAL_ALIGNMENT[anchor],
+        width,
+        height,
+    };
+};
@@ -0,0 +1,341 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Overlay } from '../types';
+import { dataURLtoFile, fileToDataURL } from './fileUtils';
+import { rebuildHistory, EditorCommand, EditorHistory, OverlayChange } from './editorHistory';
+import { customAssetIdFromSrc, CustomAsset } from './customAssets';
+import { CATEGORY_DEFAULTS } from './assetDefaults';
+import { ADJUSTMENT_CONTROLS, AdjustmentSettings, DEFAULT_ADJUSTMENTS } from './adjustments';
+import { normalizeTextLayer } from './textLayers';
+import { normalizeDrawingLayer } from './drawingLayers';
+import { isFiniteNumber, isRecord } from './typeGuards';
+
+export const PROJECT_FORMAT = 'zazu-project';
+export const PROJECT_FORMAT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.zazu.json';
+
+// The AI prompts typed or picked in each tool panel
+export interface ProjectPrompts {
+    retouch: string;
+    filter: string;
+    adjustment: string;
+}
+
+// Everything needed to restore a composition in the editor
+export interface ProjectSnapshot {
+    history: EditorHistory;
+    prompts: ProjectPrompts;
+    /** Uploaded assets the history refers to. Only used by project files; sessions read the library. */
+    customAssets?: CustomAsset[];
+}
+
+interface SerializedImage {
+    name: string;
+    type: string;
+    data: string; // data URL
+}
+
+// Commands reference images by their position in the project's `images` table
+type SerializedCommand =
+    | Exclude<EditorCommand, { type: 'setImage' }>
+    | { type: 'setImage'; label: string; before: number; after: number };
+
+interface SerializedCustomAsset {
+    id: string;
+    name: string;
+    category: CustomAsset['category'];
+    tags: string[];
+    createdAt: number;
+    image: number; // index into `images`
+}
+
+// The command history on top of a base state, with every image and uploaded asset embedded
+interface ProjectFile {
+    format: typeof PROJECT_FORMAT;
+    version: typeof PROJECT_FORMAT_VERSION;
+    savedAt: string;
+    images: SerializedImage[];
+    base: { image: number; overlays: Overlay[] };
+    commands: SerializedCommand[];
+    index: number;
+    prompts: ProjectPrompts;
+    customAssets: SerializedCustomAsset[];
+}
+
+const isAssetCategory = (value: unknown): value is CustomAsset['category'] =>
+    typeof value === 'string' && value in CATEGORY_DEFAULTS;
+
+const parseOverlay = (raw: unknown, index: number): Overlay => {
+    if (!isRecord(raw) || typeof raw.src !== 'string' || !raw.src) {
+        throw new Error(`Overlay #${index + 1} is missing its image source.`);
+    }
+    const boxValue = (key: 'x' | 'y' | 'width' | 'height'): number => {
+        const value = raw[key];
+        if (!isFiniteNumber(value)) {
+            throw new Error(`Overlay #${index + 1} has an invalid "${key}" value.`);
+        }
+        return value;
+    };
+    return {
+        id: typeof raw.id === 'string' ? raw.id : `asset-${Date.now()}-${index}`,
+        src: raw.src,
+        name: typeof raw.name === 'string' ? raw.name : 'Asset',
+        category: typeof raw.category === 'string' ? raw.category : 'accessories',
+        x: boxValue('x'),
+        y: boxValue('y'),
+        width: boxValue('width'),
+        height: boxValue('height'),
+        rotation: isFiniteNumber(raw.rotation) ? raw.rotation : 0,
+        opacity: isFiniteNumber(raw.opacity) ? raw.opacity : 1,
+        zIndex: isFiniteNumber(raw.zIndex) ? raw.zIndex : 1000,
+        hidden: raw.hidden === true || undefined,
+        locked: raw.locked === true || undefined,
+        flipX: raw.flipX === true || undefined,
+        flipY: raw.flipY === true || undefined,
+        text: normalizeTextLayer(raw.text),
+        drawing: normalizeDrawingLayer(raw.drawing),
+    };
+};
+
+const PATCH_STRING_FIELDS = ['id', 'src', 'name', 'category'] as const;
+const PATCH_NUMBER_FIELDS = ['x', 'y', 'width', 'height', 'rotation', 'opacity', 'zIndex'] as const;
+const PATCH_FLAG_FIELDS = ['hidden', 'locked', 'flipX', 'flipY'] as const;
+
+// Reads the fields an overlay update changes. Unlike parseOverlay nothing is required,
+// but every field that is present must be valid
+const parseOverlayPatch = (raw: unknown, entry: string): Partial<Overlay> => {
+    if (!isRecord(raw)) throw new Error(`${entry} is corrupted.`);
+    const invalid = (key: string) => new Error(`${entry} has an invalid "${key}" value.`);
+    const patch: Partial<Overlay> = {};
+    for (const key of PATCH_STRING_FIELDS) {
+        if (!(key in raw)) continue;
+        const value = raw[key];
+        if (typeof value !== 'string') throw invalid(key);
+        patch[key] = value;
+    }
+    for (const key of PATCH_NUMBER_FIELDS) {
+        if (!(key in raw)) continue;
+        const value = raw[key];
+        if (!isFiniteNumber(value)) throw invalid(key);
+        patch[key] = value;
+    }
+    for (const key of PATCH_FLAG_FIELDS) {
+        if (!(key in raw)) continue;
+        const value = raw[key];
+        if (value !== undefined && typeof value !== 'boolean') throw invalid(key);
+        patch[key] = value === true || undefined;
+    }
+    if ('text' in raw) {
+        const text = normalizeTextLayer(raw.text);
+        if (!text) throw invalid('text');
+        patch.text = text;
+    }
+    if ('drawing' in raw) {
+        const drawing = normalizeDrawingLayer(raw.drawing);
+        if (!drawing) throw invalid('drawing');
+        patch.drawing = drawing;
+    }
+    return patch;
+};
+
+const parseOverlayChanges = (raw: unknown, entry: string): OverlayChange[] => {
+    if (!Array.isArray(raw)) throw new Error(`${entry} is corrupted.`);
+    return raw.map((change: unknown): OverlayChange => {
+        if (!isRecord(change) || typeof change.id !== 'string') throw new Error(`${entry} is corrupted.`);
+        return { id: change.id, before: parseOverlayPatch(change.before, entry), after: parseOverlayPatch(change.after, entry) };
+    });
+};
+
+const parseAdjustments = (raw: unknown, entry: string): AdjustmentSettings => {
+    if (!isRecord(raw)) throw new Error(`${entry} is corrupted.`);
+    const settings = { ...DEFAULT_ADJUSTMENTS };
+    for (const { key } of ADJUSTMENT_CONTROLS) {
+        const value = raw[key];
+        if (!isFiniteNumber(value)) throw new Error(`${entry} has an invalid "${key}" value.`);
+        settings[key] = value;
+    }
+    return settings;
+};
+
+// Reads one history entry, rejecting anything that would fail later on undo or redo
+const parseCommand = (raw: unknown, index: number, imageAt: (index: unknown) => File): EditorCommand => {
+    const entry = `History entry #${index + 1}`;
+    if (!isRecord(raw)) throw new Error(`${entry} is corrupted.`);
+    const label = typeof raw.label === 'string' ? raw.label : 'Edit';
+    switch (raw.type) {
+        case 'setImage':
+            return {
+                type: 'setImage',
+                label,
+                before: imageAt(raw.before),
+                after: imageAt(raw.after),
+                ...(raw.overlayChanges !== undefined && { overlayChanges: parseOverlayChanges(raw.overlayChanges, entry) }),
+                ...(raw.adjustments !== undefined && { adjustments: parseAdjustments(raw.adjustments, entry) }),
+            };
+        case 'addOverlays':
+            if (!Array.isArray(raw.overlays)) throw new Error(`${entry} is corrupted.`);
+            return { type: 'addOverlays', label, overlays: raw.overlays.map(parseOverlay) };
+        case 'removeOverlays':
+            if (!Array.isArray(raw.removed)) throw new Error(`${entry} is corrupted.`);
+            return {
+                type: 'removeOverlays',
+                label,
+                removed: raw.removed.map((removed: unknown, i: number) => {
+                    if (!isRecord(removed) || !isFiniteNumber(removed.index)) throw new Error(`${entry} is corrupted.`);
+                    return { index: removed.index, overlay: parseOverlay(removed.overlay, i) };
+                }),
+            };
+        case 'updateOverlays':
+            return {
+                type: 'updateOverlays',
+                label,
+                changes: parseOverlayChanges(raw.changes, entry),
+                ...(typeof raw.mergeKey === 'string' && { mergeKey: raw.mergeKey }),
+            };
+        default:
+            throw new Error(`The project contains an unknown history entry "${String(raw.type)}".`);
+    }
+};
+
+// Every uploaded asset used anywhere in the history, including undone and removed overlays
+const referencedCustomAssetIds = (history: EditorHistory): Set<string> => {
+    const overlays = [
+        ...history.base.overlays,
+        ...history.commands.flatMap(command =>
+            command.type === 'addOverlays' ? command.overlays
+                : command.type === 'removeOverlays' ? command.removed.map(entry => entry.overlay)
+                : []),
+    ];
+    const ids = overlays.map(overlay => customAssetIdFromSrc(overlay.src)).filter((id): id is string => !!id);
+    return new Set(ids);
+};
+
+/**
+ * Serializes the editor state into a self-contained project file.
+ * Images, including uploaded assets the overlays use, are embedded as data URLs (each distinct
+ * file once) so the file can be shared as-is.
+ * @param snapshot The editor state to save.
+ * @returns A promise that resolves to a JSON blob of the project.
+ */
+export const serializeProject = async (snapshot: ProjectSnapshot): Promise<Blob> => {
+    const { history } = snapshot;
+    const files: File[] = [];
+    const indexOf = (file: File): number => {
+        let index = files.indexOf(file);
+        if (index === -1) index = files.push(file) - 1;
+        return index;
+    };
+
+    const base = { image: indexOf(history.base.image), overlays: history.base.overlays };
+    const usedAssetIds = referencedCustomAssetIds(history);
+    const customAssets = (snapshot.customAssets ?? [])
+        .filter(asset => usedAssetIds.has(asset.id))
+        .map(({ file, ...asset }): SerializedCustomAsset => ({ ...asset, image: indexOf(file) }));
+    const commands = history.commands.map((command): SerializedCommand =>
+        command.type === 'setImage'
+            ? { ...command, before: indexOf(command.before), after: indexOf(command.after) }
+            : command
+    );
+    const images = await Promise.all(files.map(async (file): Promise<SerializedImage> => ({
+        name: file.name,
+        type: file.type || 'image/png',
+        data: await fileToDataURL(file),
+    })));
+
+    const project: ProjectFile = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_FORMAT_VERSION,
+        savedAt: new Date().toISOString(),
+        images,
+        base,
+        commands,
+        index: history.index,
+        prompts: snapshot.prompts,
+        customAssets,
+    };
+
+    return new Blob([JSON.stringify(project)], { type: 'application/json' });
+};
+
+const parseImages = (images: unknown): File[] => {
+    if (!Array.isArray(images) || images.length === 0) {
+        throw new Error('The project does not contain any images.');
+    }
+    return images.map((image: unknown, index: number) => {
+        if (!isRecord(image) || typeof image.data !== 'string') {
+            throw new Error(`Image #${index + 1} in the project is corrupted.`);
+        }
+        return dataURLtoFile(image.data, typeof image.name === 'string' && image.name ? image.name : `image-${index}.png`);
+    });
+};
+
+const parseOverlays = (overlays: unknown): Overlay[] => Array.isArray(overlays) ? overlays.map(parseOverlay) : [];
+
+const parsePrompts = (prompts: unknown): ProjectPrompts => {
+    const prompt = (key: keyof ProjectPrompts) =>
+        isRecord(prompts) && typeof prompts[key] === 'string' ? prompts[key] : '';
+    return { retouch: prompt('retouch'), filter: prompt('filter'), adjustment: prompt('adjustment') };
+};
+
+// Reads the history fields of a ProjectFile
+const parseHistory = (raw: Record<string, unknown>, images: File[]): EditorHistory => {
+    const imageAt = (index: unknown): File => {
+        const file = isFiniteNumber(index) ? images[index] : undefined;
+        if (!file) throw new Error(`The project references a missing image (#${index}).`);
+        return file;
+    };
+
+    const rawBase = isRecord(raw.base) ? raw.base : {};
+    const base = { image: imageAt(rawBase.image), overlays: parseOverlays(rawBase.overlays) };
+    const commands = (Array.isArray(raw.commands) ? raw.commands : []).map((command: unknown, i: number) => parseCommand(command, i, imageAt));
+    return rebuildHistory(base, commands, isFiniteNumber(raw.index) ? raw.index : commands.length);
+};
+
+const parseCustomAssets = (assets: unknown, images: File[]): CustomAsset[] => {
+    if (!Array.isArray(assets)) return [];
+    return assets.map((asset: unknown, index: number): CustomAsset => {
+        const file = isRecord(asset) && isFiniteNumber(asset.image) ? images[asset.image] : undefined;
+        if (!isRecord(asset) || !file || typeof asset.id !== 'string') {
+            throw new Error(`Uploaded asset #${index + 1} in the project is corrupted.`);
+        }
+        return {
+            id: asset.id,
+            name: typeof asset.name === 'string' ? asset.name : 'Uploaded asset',
+            category: isAssetCategory(asset.category) ? asset.category : 'accessories',
+            tags: Array.isArray(asset.tags) ? asset.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+            createdAt: isFiniteNumber(asset.createdAt) ? asset.createdAt : Date.now(),
+            file,
+        };
+    });
+};
+
+/**
+ * Reads and validates a project file produced by serializeProject.
+ * @param file The project file selected by the user.
+ * @returns A promise that resolves to the restored editor state.
+ */
+export const parseProject = async (file: File): Promise<ProjectSnapshot> => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(await file.text());
+    } catch {
+        throw new Error(`"${file.name}" is not a valid project file.`);
+    }
+
+    if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) {
+        throw new Error(`"${file.name}" is not a Zazu project file.`);
+    }
+    if (raw.version !== PROJECT_FORMAT_VERSION) {
+        throw new Error(`Unsupported project version ${String(raw.version)}. Please update the editor to open this file.`);
+    }
+    const images = parseImages(raw.images);
+
+    return {
+        history: parseHistory(raw, images),
+        prompts: parsePrompts(raw.prompts),
+        customAssets: parseCustomAssets(raw.customAssets, images),
+    };
+};
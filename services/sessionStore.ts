@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { runRequest, SESSIONS_STORE } from './db';
+import type { ProjectSnapshot } from './projectService';
+
+export interface SessionSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    thumbnail: File | null;
+}
+
+export interface SessionRecord extends SessionSummary {
+    snapshot: ProjectSnapshot;
+}
+
+export const createSessionId = (): string => `session-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+/**
+ * Writes (or overwrites) an editor session.
+ * @param record The session to persist. History files are stored as-is.
+ */
+export const saveSession = async (record: SessionRecord): Promise<void> => {
+    await runRequest(SESSIONS_STORE, 'readwrite', store => store.put(record));
+};
+
+/**
+ * Loads a full session, including its image history.
+ * @param id The session id.
+ * @returns The session, or null if it no longer exists.
+ */
+export const loadSession = async (id: string): Promise<SessionRecord | null> => {
+    const record = await runRequest<SessionRecord | undefined>(SESSIONS_STORE, 'readonly', store => store.get(id));
+    return record ?? null;
+};
+
+/**
+ * Lists stored sessions, most recently updated first.
+ */
+export const listSessions = async (): Promise<SessionSummary[]> => {
+    const records = await runRequest<SessionRecord[]>(SESSIONS_STORE, 'readonly', store => store.getAll());
+    return records
+        .map(({ id, name, createdAt, updatedAt, thumbnail }) => ({ id, name, createdAt, updatedAt, thumbnail }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Removes a session permanently.
+ * @param id The session id.
+ */
+export const deleteSession = async (id: string): Promise<void> => {
+    await runRequest(SESSIONS_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Overlay, TextAlign, TextLayer } from '../types';
+import type { Rect } from './compositionRenderer';
+import { createCanvas, getCanvasContext } from './mask';
+import { isColour, isFiniteNumber, isRecord } from './typeGuards';
+
+// Text layers have no image; this marks their `src` so image code can tell them apart
+export const TEXT_LAYER_SRC = 'text-layer:';
+export const TEXT_LAYER_CATEGORY = 'text';
+
+export const MAX_TEXT_ARC = 270;
+
+// The web fonts are loaded in index.html; Impact is used where the system has it
+export const TEXT_FONTS: Array<{ label: string; family: string }> = [
+    { label: 'Impact', family: 'Impact, Anton, "Arial Narrow", sans-serif' },
+    { label: 'Anton', family: 'Anton, Impact, sans-serif' },
+    { label: 'Bangers', family: 'Bangers, Impact, cursive' },
+    { label: 'Comic', family: '"Comic Neue", "Comic Sans MS", cursive' },
+    { label: 'Inter', family: 'Inter, sans-serif' },
+    { label: 'Serif', family: 'Georgia, "Times New Roman", serif' },
+];
+
+export const DEFAULT_TEXT_LAYER: TextLayer = {
+    content: 'YOUR TEXT',
+    fontFamily: TEXT_FONTS[0].family,
+    fontSize: 48,
+    fill: '#ffffff',
+    stroke: '#000000',
+    strokeWidth: 4,
+    shadowColor: '#000000',
+    shadowBlur: 0,
+    align: 'center',
+    arc: 0,
+};
+
+export type CaptionPosition = 'top' | 'bottom' | 'center';
+
+// Classic meme captions: white Impact with a black outline along the top or bottom edge
+export const CAPTION_PRESETS: Array<{ label: string; position: CaptionPosition; text: TextLayer }> = [
+    { label: 'Top Caption', position: 'top', text: { ...DEFAULT_TEXT_LAYER, content: 'TOP TEXT' } },
+    { label: 'Bottom Caption', position: 'bottom', text: { ...DEFAULT_TEXT_LAYER, content: 'BOTTOM TEXT' } },
+];
+
+// One piece of text to draw, centred on (x, y) at its baseline
+interface PlacedGlyph {
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    rotation: number;
+}
+
+export interface TextLayout {
+    /** The natural size of the text, including room for the outline and shadow. */
+    width: number;
+    height: number;
+    glyphs: PlacedGlyph[];
+}
+
+export const isTextOverlay = (overlay: Overlay): overlay is Overlay & { text: TextLayer } => !!overlay.text;
+
+const fontFor = (text: TextLayer) => `${text.fontSize}px ${text.fontFamily}`;
+
+const shadowOffsetFor = (text: TextLayer) => text.shadowBlur > 0 ? text.fontSize * 0.05 : 0;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+const getMeasureContext = () => {
+    measureContext ??= getCanvasContext(createCanvas(1, 1));
+    return measureContext;
+};
+
+// Where a line starts along the baseline, with 0 at the middle of the widest line
+const lineStart = (align: TextAlign, lineWidth: number, maxWidth: number) =>
+    align === 'left' ? -maxWidth / 2 : align === 'right' ? maxWidth / 2 - lineWidth : -lineWidth / 2;
+
+/**
+ * Works out where every line (or, for arched text, every character) goes. The preview and
+ * exports both draw from this layout, so text looks the same at any output size.
+ * @param text The text layer.
+ * @returns The natural size and the placed glyphs, in stage pixels.
+ */
+export const layoutTextLayer = (text: TextLayer): TextLayout => {
+    const ctx = getMeasureContext();
+    ctx.font = fontFor(text);
+    const lines = text.content.split('\n');
+    const lineWidths = lines.map(line => ctx.measureText(line).width);
+    const maxWidth = Math.max(1, ...lineWidths);
+    const lineHeight = text.fontSize * 1.15;
+    const ascent = text.fontSize * 0.8;
+    const descent = text.fontSize * 0.25;
+    const arc = Math.max(-MAX_TEXT_ARC, Math.min(MAX_TEXT_ARC, text.arc)) * Math.PI / 180;
+
+    const glyphs: PlacedGlyph[] = [];
+    if (Math.abs(arc) < 0.001) {
+        lines.forEach((line, index) => {
+            if (!line) return;
+            const start = lineStart(text.align, lineWidths[index], maxWidth);
+            glyphs.push({ text: line, x: start + lineWidths[index] / 2, y: index * lineHeight, width: lineWidths[index], rotation: 0 });
+        });
+    } else {
+        // The widest line bends through the full arc; the others follow the same circle
+        const radius = maxWidth / Math.abs(arc);
+        const arches = arc > 0;
+        lines.forEach((line, index) => {
+            const lineRadius = Math.max(text.fontSize, arches ? radius - index * lineHeight : radius + index * lineHeight);
+            let offset = lineStart(text.align, lineWidths[index], maxWidth);
+            for (const character of Array.from(line)) {
+                const width = ctx.measureText(character).width;
+                const angle = (offset + width / 2) / lineRadius;
+                offset += width;
+                if (!character.trim()) continue;
+                glyphs.push({
+                    text: character,
+                    x: lineRadius * Math.sin(angle),
+                    y: arches ? radius - lineRadius * Math.cos(angle) : lineRadius * Math.cos(angle) - radius,
+                    width,
+                    rotation: arches ? angle : -angle,
+                });
+            }
+        });
+    }
+
+    if (glyphs.length === 0) {
+        return { width: text.fontSize, height: lineHeight, glyphs };
+    }
+
+    // Bounding box of every glyph's rotated box
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const glyph of glyphs) {
+        const cos = Math.cos(glyph.rotation);
+        const sin = Math.sin(glyph.rotation);
+        for (const [dx, dy] of [[-glyph.width / 2, -ascent], [glyph.width / 2, -ascent], [-glyph.width / 2, descent], [glyph.width / 2, descent]]) {
+            const x = glyph.x + dx * cos - dy * sin;
+            const y = glyph.y + dx * sin + dy * cos;
+            minX = Math.min(minX, x);
+            minY = Math.min(minY, y);
+            maxX = Math.max(maxX, x);
+            maxY = Math.max(maxY, y);
+        }
+    }
+
+    const padding = text.strokeWidth + text.shadowBlur + shadowOffsetFor(text);
+    return {
+        width: maxX - minX + padding * 2,
+        height: maxY - minY + padding * 2,
+        glyphs: glyphs.map(glyph => ({ ...glyph, x: glyph.x - minX + padding, y: glyph.y - minY + padding })),
+    };
+};
+
+/**
+ * Draws a text layer scaled to fit `box`, keeping its proportions. The caller sets up
+ * opacity, rotation and mirroring.
+ * @param ctx The context to draw on.
+ * @param text The text layer.
+ * @param box Where to draw it, in the context's current coordinates.
+ */
+export const drawTextLayer = (ctx: CanvasRenderingContext2D, text: TextLayer, box: Rect): void => {
+    const layout = layoutTextLayer(text);
+    const scale = Math.min(box.width / layout.width, box.height / layout.height);
+    if (!(scale > 0) || layout.glyphs.length === 0) return;
+
+    ctx.save();
+    ctx.translate(box.x + (box.width - layout.width * scale) / 2, box.y + (box.height - layout.height * scale) / 2);
+    ctx.scale(scale, scale);
+    ctx.font = fontFor(text);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = text.strokeWidth * 2;
+    ctx.strokeStyle = text.stroke;
+    ctx.fillStyle = text.fill;
+
+    const drawGlyphs = (paint: (glyph: PlacedGlyph) => void) => {
+        for (const glyph of layout.glyphs) {
+            ctx.save();
+            ctx.translate(glyph.x, glyph.y);
+            ctx.rotate(glyph.rotation);
+            paint(glyph);
+            ctx.restore();
+        }
+    };
+    const paintGlyph = (glyph: PlacedGlyph) => {
+        // The outline is drawn first so the fill covers its inner half
+        if (text.strokeWidth > 0) ctx.strokeText(glyph.text, 0, 0);
+        ctx.fillText(glyph.text, 0, 0);
+    };
+
+    if (text.shadowBlur > 0) {
+        // Shadows ignore the transform, so scale them to the output by hand
+        const transform = ctx.getTransform();
+        const outputScale = Math.hypot(transform.a, transform.b);
+        ctx.save();
+        ctx.shadowColor = text.shadowColor;
+        ctx.shadowBlur = text.shadowBlur * outputScale;
+        ctx.shadowOffsetX = shadowOffsetFor(text) * outputScale;
+        ctx.shadowOffsetY = shadowOffsetFor(text) * outputScale;
+        drawGlyphs(paintGlyph);
+        ctx.restore();
+    }
+    drawGlyphs(paintGlyph);
+    ctx.restore();
+};
+
+/**
+ * Waits until the fonts used by the given text layers are ready, so measuring and drawing
+ * use the real font rather than a fallback.
+ */
+export const loadTextLayerFonts = async (texts: TextLayer[]): Promise<void> => {
+    if (texts.length === 0 || typeof document === 'undefined' || !document.fonts) return;
+    const fonts = new Set(texts.map(fontFor));
+    await Promise.all(Array.from(fonts, font => document.fonts.load(font).catch(err => {
+        console.warn(`Could not load font ${font}:`, err);
+    })));
+};
+
+
+/**
+ * Reads a text layer from untrusted data such as a project file, filling in defaults for
+ * missing or invalid fields.
+ * @returns The text layer, or undefined if `raw` isn't one.
+ */
+export const normalizeTextLayer = (raw: unknown): TextLayer | undefined => {
+    if (!isRecord(raw) || typeof raw.content !== 'string') return undefined;
+    const { fontFamily, fontSize, strokeWidth, shadowBlur, align, arc } = raw;
+    return {
+        content: raw.content,
+        fontFamily: typeof fontFamily === 'string' && fontFamily ? fontFamily : DEFAULT_TEXT_LAYER.fontFamily,
+        fontSize: isFiniteNumber(fontSize) && fontSize > 0 ? fontSize : DEFAULT_TEXT_LAYER.fontSize,
+        fill: isColour(raw.fill) ? raw.fill : DEFAULT_TEXT_LAYER.fill,
+        stroke: isColour(raw.stroke) ? raw.stroke : DEFAULT_TEXT_LAYER.stroke,
+        strokeWidth: isFiniteNumber(strokeWidth) && strokeWidth >= 0 ? strokeWidth : 0,
+        shadowColor: isColour(raw.shadowColor) ? raw.shadowColor : DEFAULT_TEXT_LAYER.shadowColor,
+        shadowBlur: isFiniteNumber(shadowBlur) && shadowBlur >= 0 ? shadowBlur : 0,
+        align: align === 'left' || align === 'right' ? align : 'center',
+        arc: isFiniteNumber(arc) ? Math.max(-MAX_TEXT_ARC, Math.min(MAX_TEXT_ARC, arc)) : 0,
+    };
+};
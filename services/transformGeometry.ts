@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Rect } from './compositionRenderer';
+
+// Overlays can't be shrunk below this many stage pixels on either side
+export const MIN_OVERLAY_SIZE = 20;
+export const ROTATION_SNAP_DEGREES = 15;
+
+export type TransformHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+
+export interface TransformBox extends Rect {
+    rotation: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// Which side of the box each handle moves: -1 for left/top, 1 for right/bottom, 0 for neither
+export const HANDLE_DIRECTIONS: Record<TransformHandle, { x: number; y: number }> = {
+    nw: { x: -1, y: -1 },
+    n: { x: 0, y: -1 },
+    ne: { x: 1, y: -1 },
+    e: { x: 1, y: 0 },
+    se: { x: 1, y: 1 },
+    s: { x: 0, y: 1 },
+    sw: { x: -1, y: 1 },
+    w: { x: -1, y: 0 },
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const rotateVector = (x: number, y: number, degrees: number) => {
+    const cos = Math.cos(toRadians(degrees));
+    const sin = Math.sin(toRadians(degrees));
+    return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+/**
+ * Normalizes an angle to the range (-180, 180].
+ */
+export const normalizeRotation = (degrees: number): number => {
+    const wrapped = ((degrees % 360) + 360) % 360;
+    return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+/**
+ * Returns the axis-aligned rect that encloses a rotated box.
+ */
+export const boundingRect = (box: TransformBox): Rect => {
+    const half = [
+        rotateVector(box.width / 2, box.height / 2, box.rotation),
+        rotateVector(box.width / 2, -box.height / 2, box.rotation),
+    ];
+    const halfWidth = Math.max(...half.map(corner => Math.abs(corner.x)));
+    const halfHeight = Math.max(...half.map(corner => Math.abs(corner.y)));
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+    return { x: centerX - halfWidth, y: centerY - halfHeight, width: halfWidth * 2, height: halfHeight * 2 };
+};
+
+/**
+ * Whether two rects overlap.
+ */
+export const rectsIntersect = (a: Rect, b: Rect): boolean =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+/**
+ * Resizes a (possibly rotated) box by dragging one of its handles. The opposite corner or
+ * edge stays fixed on the stage, so the box grows away from it in the box's own frame.
+ * @param start The box as it was when the gesture began.
+ * @param handle The handle being dragged.
+ * @param deltaX Pointer movement since the gesture began, in stage pixels.
+ * @param deltaY Pointer movement since the gesture began, in stage pixels.
+ * @param keepAspect Whether to keep the box's width/height ratio.
+ * @returns The new unrotated rect; the rotation is unchanged.
+ */
+export const resizeBox = (
+    start: TransformBox,
+    handle: TransformHandle,
+    deltaX: number,
+    deltaY: number,
+    keepAspect: boolean
+): Rect => {
+    const direction = HANDLE_DIRECTIONS[handle];
+    // Express the pointer movement along the box's own axes
+    const local = rotateVector(deltaX, deltaY, -start.rotation);
+
+    let width = direction.x !== 0 ? start.width + direction.x * local.x : start.width;
+    let height = direction.y !== 0 ? start.height + direction.y * local.y : start.height;
+
+    if (keepAspect) {
+        const scaleX = width / start.width;
+        const scaleY = height / start.height;
+        // Corners follow whichever axis moved further; edges drive the other axis along
+        const scale = direction.x === 0 ? scaleY
+            : direction.y === 0 ? scaleX
+            : Math.abs(scaleX - 1) > Math.abs(scaleY - 1) ? scaleX : scaleY;
+        const minScale = MIN_OVERLAY_SIZE / Math.min(start.width, start.height);
+        const clamped = Math.max(minScale, scale);
+        width = start.width * clamped;
+        height = start.height * clamped;
+    } else {
+        width = Math.max(MIN_OVERLAY_SIZE, width);
+        height = Math.max(MIN_OVERLAY_SIZE, height);
+    }
+
+    // Keep the anchor (the side opposite the handle) where it was on the stage
+    const startCenterX = start.x + start.width / 2;
+    const startCenterY = start.y + start.height / 2;
+    const anchorOffset = rotateVector(-direction.x * start.width / 2, -direction.y * start.height / 2, start.rotation);
+    const newOffset = rotateVector(direction.x * width / 2, direction.y * height / 2, start.rotation);
+    const centerX = startCenterX + anchorOffset.x + newOffset.x;
+    const centerY = startCenterY + anchorOffset.y + newOffset.y;
+
+    return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+};
+
+/**
+ * Computes the rotation that points the box's top edge towards the pointer, as used by
+ * a rotation handle that sits above the box.
+ * @param box The box being rotated.
+ * @param pointerX Pointer position in stage pixels.
+ * @param pointerY Pointer position in stage pixels.
+ * @param snap Whether to snap to ROTATION_SNAP_DEGREES increments.
+ */
+export const rotationTowards = (box: Rect, pointerX: number, pointerY: number, snap: boolean): number => {
+    const centerX = box.x + box.width / 2;
+    const centerY = box.y + box.height / 2;
+    const degrees = (Math.atan2(pointerY - centerY, pointerX - centerX) * 180) / Math.PI + 90;
+    const rotation = snap ? Math.round(degrees / ROTATION_SNAP_DEGREES) * ROTATION_SNAP_DEGREES : degrees;
+    return normalizeRotation(rotation);
+};
+
+/**
+ * Moves, scales and rotates a box with a two-finger gesture. The content under the fingers
+ * stays under them: the box turns and scales around the midpoint between the two pointers.
+ * @param start The box as it was when the second pointer went down.
+ * @param from The two pointer positions when the gesture began.
+ * @param to The two current pointer positions, in the same order.
+ */
+export const pinchBox = (start: TransformBox, from: [Point, Point], to: [Point, Point]): TransformBox => {
+    const startDistance = Math.hypot(from[1].x - from[0].x, from[1].y - from[0].y);
+    const distance = Math.hypot(to[1].x - to[0].x, to[1].y - to[0].y);
+    const minScale = MIN_OVERLAY_SIZE / Math.min(start.width, start.height);
+    const scale = startDistance > 0 ? Math.max(minScale, distance / startDistance) : 1;
+
+    const startAngle = Math.atan2(from[1].y - from[0].y, from[1].x - from[0].x);
+    const angle = Math.atan2(to[1].y - to[0].y, to[1].x - to[0].x);
+    const turn = ((angle - startAngle) * 180) / Math.PI;
+
+    const fromMid = { x: (from[0].x + from[1].x) / 2, y: (from[0].y + from[1].y) / 2 };
+    const toMid = { x: (to[0].x + to[1].x) / 2, y: (to[0].y + to[1].y) / 2 };
+    const offset = rotateVector(
+        (start.x + start.width / 2 - fromMid.x) * scale,
+        (start.y + start.height / 2 - fromMid.y) * scale,
+        turn
+    );
+
+    const width = start.width * scale;
+    const height = start.height * scale;
+    return {
+        x: toMid.x + offset.x - width / 2,
+        y: toMid.y + offset.y - height / 2,
+        width,
+        height,
+        rotation: normalizeRotation(start.rotation + turn),
+    };
+};
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export const MAX_VARIANTS = 4;
+// Variants are kept as data URLs in memory, so the tray only holds the most recent ones
+export const MAX_TRAY_VARIANTS = 24;
+
+// A generated image that was not picked, kept for the rest of the session
+export interface TrayVariant {
+    id: string;
+    imageUrl: string;
+    label: string;
+}
+
+/**
+ * Runs `generate` `count` times in parallel and collects the images that succeeded.
+ * A few failed variants are tolerated; only when every one fails is the first error thrown.
+ * @param count How many variants to request, between 1 and MAX_VARIANTS.
+ * @param generate Produces one variant as a data URL.
+ * @returns The data URLs of the variants that were generated.
+ */
+export const generateVariants = async (count: number, generate: () => Promise<string>): Promise<string[]> => {
+    const total = Math.min(MAX_VARIANTS, Math.max(1, Math.round(count)));
+    const results = await Promise.allSettled(Array.from({ length: total }, () => generate()));
+
+    const images = results
+        .filter((result): result is PromiseFulfilledResult<string> => result.status === 'fulfilled')
+        .map(result => result.value);
+    const failures = results
+        .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+        .map(result => result.reason);
+
+    if (images.length === 0) throw failures[0];
+    if (failures.length > 0) {
+        console.warn(`${failures.length} of ${total} variants failed:`, failures);
+    }
+    return images;
+};
+
+/**
+ * Adds variants to the front of the tray, dropping the oldest beyond MAX_TRAY_VARIANTS.
+ */
+export const addToTray = (tray: TrayVariant[], imageUrls: string[], label: string): TrayVariant[] => {
+    const added = imageUrls.map(imageUrl => ({
+        id: `variant-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+        imageUrl,
+        label,
+    }));
+    return [...added, ...tray].slice(0, MAX_TRAY_VARIANTS);
+};
@@ -2,3 +2,99 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+// An image asset placed on top of (or behind) the base image
+export interface Overlay {
+  id: string;
+  src: string;
+  name: string;
+  category: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Degrees clockwise around the box centre
+  rotation: number;
+  opacity: number;
+  zIndex: number;
+  hidden?: boolean;
+  locked?: boolean;
+  flipX?: boolean;
+  flipY?: boolean;
+  // Set for text layers, which are drawn from this instead of `src`
+  text?: TextLayer;
+  // Set for freehand drawing layers, which are drawn from this instead of `src`
+  drawing?: DrawingLayer;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+// The content and styling of a text layer. Sizes are in stage pixels at the layer's
+// natural size; the overlay box scales the whole layout up or down from there
+export interface TextLayer {
+  content: string;
+  fontFamily: string;
+  fontSize: number;
+  fill: string;
+  stroke: string;
+  // Outline thickness outside the letters; 0 for none
+  strokeWidth: number;
+  shadowColor: string;
+  // 0 for no shadow
+  shadowBlur: number;
+  align: TextAlign;
+  // Degrees the baseline bends through: positive arches upwards, negative curves like a smile
+  arc: number;
+}
+
+export type AssetCategory = 'backgrounds' | 'eyes' | 'hats' | 'accessories' | 'characters';
+
+// The part of the subject an asset is meant to sit on; 'fill' covers the whole stage
+export type AssetAnchor = 'fill' | 'center' | 'head' | 'eyes' | 'mouth' | 'neck' | 'body';
+
+// The anchors a character provides for assets to snap onto
+export type CharacterAnchorName = Exclude<AssetAnchor, 'fill' | 'center'>;
+
+// A point on a character image, as fractions (0..1) of the image size.
+// `width` is how wide the feature is (e.g. eye to eye), which sets the size of snapped assets
+export interface AnchorPoint {
+  x: number;
+  y: number;
+  width: number;
+}
+
+export type CharacterAnchors = Partial<Record<CharacterAnchorName, AnchorPoint>>;
+
+// One entry of the asset manifest generated at build time from public/assets
+export interface AssetEntry {
+  id: string;
+  name: string;
+  category: AssetCategory;
+  path: string;
+  tags: string[];
+  defaultSize: { width: number; height: number };
+  anchor: AssetAnchor;
+  // Characters only: where assets snap to when this character is the base image
+  anchors?: CharacterAnchors;
+}
+
+export type DrawingTool = 'pen' | 'marker' | 'highlighter' | 'eraser';
+
+// A point of a stroke: x and y in the drawing's own coordinates, and pen pressure from 0 to 1
+export type DrawingPoint = [number, number, number];
+
+export interface DrawingStroke {
+  tool: DrawingTool;
+  color: string;
+  // Brush diameter in the drawing's own coordinates; the pen varies it with pressure
+  width: number;
+  points: DrawingPoint[];
+}
+
+// A vector drawing. Strokes are kept as paths in a width × height coordinate space that
+// the overlay box stretches onto, so the drawing can be moved, scaled and edited later
+export interface DrawingLayer {
+  width: number;
+  height: number;
+  strokes: DrawingStroke[];
+}
@@ -0,0 +1,9 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+declare module 'virtual:asset-manifest' {
+  const manifest: import('./types').AssetEntry[];
+  export default manifest;
+}
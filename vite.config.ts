@@ -1,12 +1,18 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
+import { assetManifestPlugin } from './scripts/assetManifest';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [
+        assetManifestPlugin({
+          assetsDir: path.resolve(__dirname, 'public/assets'),
+          catalogPath: path.resolve(__dirname, 'assets.catalog.json')
+        })
+      ],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER)
       },
       resolve: {
         alias: {